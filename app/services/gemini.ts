@@ -1,4 +1,9 @@
 // app/services/gemini.ts
+import { REQUIRED_COLUMNS } from '@/app/utils/validations';
+import { EntityState, EntityType, normalizeEntities } from '@/app/utils/entities';
+import { describeSchema } from '@/app/utils/schema';
+import { tryParsePhaseSet } from '@/app/utils/phases';
+
 const GEMINI_API_KEY = process.env.NEXT_PUBLIC_GEMINI_API_KEY || '';
 
 interface GeminiResponse {
@@ -69,18 +74,20 @@ export class GeminiService {
     }
   }
 
-  // Column mapping for misnamed/rearranged columns
-  async mapColumns(headers: string[], entityType: 'clients' | 'workers' | 'tasks'): Promise<Record<string, string>> {
-    const expectedColumns = {
-      clients: ['ClientID', 'ClientName', 'PriorityLevel', 'RequestedTaskIDs', 'GroupTag', 'AttributesJSON'],
-      workers: ['WorkerID', 'WorkerName', 'Skills', 'AvailableSlots', 'MaxLoadPerPhase', 'WorkerGroup', 'QualificationLevel'],
-      tasks: ['TaskID', 'TaskName', 'Category', 'Duration', 'RequiredSkills', 'PreferredPhases', 'MaxConcurrent']
-    };
+  // Column mapping for misnamed/rearranged columns. Callers pass only the headers and
+  // columns the local mapper could not resolve.
+  async mapColumns(
+    headers: string[],
+    entityType: 'clients' | 'workers' | 'tasks',
+    expectedColumns: string[] = REQUIRED_COLUMNS[entityType]
+  ): Promise<Record<string, string>> {
+    if (headers.length === 0 || expectedColumns.length === 0) return {};
 
     const prompt = `
     I have a CSV file with these headers: ${headers.join(', ')}
     
-    This file contains ${entityType} data and should have these standard columns: ${expectedColumns[entityType].join(', ')}
+    This file contains ${entityType} data and should have these standard columns:
+    ${describeSchema(entityType, expectedColumns)}
     
     Please create a mapping from the actual headers to the expected column names. Consider variations like:
     - Different cases (clientid vs ClientID)
@@ -107,22 +114,17 @@ export class GeminiService {
     }
   }
 
-  // Natural language search
-  async searchData(query: string, data: any[], entityType: string): Promise<number[]> {
+  // Natural language search over the typed model, so the generated filter works on real arrays and numbers
+  async searchData(query: string, data: any[], entityType: EntityType): Promise<number[]> {
     if (data.length === 0) return [];
     
     const sampleRow = JSON.stringify(data[0]);
     
-    const contextByType = {
-      clients: 'Clients have PriorityLevel (1-5), RequestedTaskIDs (comma-separated), GroupTag, etc.',
-      workers: 'Workers have Skills (comma-separated), AvailableSlots (array of phase numbers like [1,2,3]), MaxLoadPerPhase, etc.',
-      tasks: 'Tasks have Duration (number of phases), PreferredPhases (range like "1-3" or list like [1,2,3]), RequiredSkills (comma-separated), etc.'
-    };
-    
     const prompt = `
     I have ${entityType} data with this structure: ${sampleRow}
     
-    Context: ${contextByType[entityType] || ''}
+    Fields:
+    ${describeSchema(entityType)}
     
     User wants to search for: "${query}"
     
@@ -130,16 +132,17 @@ export class GeminiService {
     The expression should use 'row' as the variable name.
     
     Important:
-    - AvailableSlots and PreferredPhases contain phase numbers, not dates
-    - Phase numbers are typically 1-10, not dates or months
-    - For comma-separated fields, use .includes() or .split(',')
-    - For array fields stored as strings, parse them first
+    - AvailableSlots and PreferredPhases contain phase numbers, not dates or months
+    - Phase expressions such as "1-3,5" are already expanded, e.g. PreferredPhases is [1,2,3,5]
+    - List fields are already JavaScript arrays; use .includes() or .some() on them
+    - Numeric fields are numbers or null
     
     Examples:
     - Query: "tasks longer than 2 phases" → row.Duration > 2
-    - Query: "workers available in phase 3" → row.AvailableSlots && row.AvailableSlots.toString().includes('3')
+    - Query: "workers available in phase 3" → row.AvailableSlots.includes(3)
+    - Query: "tasks that can run in phases 2-4" → [2,3,4].every(p => row.PreferredPhases.includes(p))
     - Query: "high priority clients" → row.PriorityLevel >= 4
-    - Query: "tasks with python skill" → row.RequiredSkills && row.RequiredSkills.toLowerCase().includes('python')
+    - Query: "tasks with python skill" → row.RequiredSkills.some(s => s.toLowerCase() === 'python')
     
     Return ONLY the JavaScript expression, nothing else.
     `;
@@ -176,11 +179,6 @@ export class GeminiService {
 
   // Natural Language Data Modification (NEW)
   async parseDataModification(query: string, data: { clients: any[], workers: any[], tasks: any[] }, activeTab: 'clients' | 'workers' | 'tasks'): Promise<DataModification | null> {
-    const contextByType = {
-      clients: `Client fields: ClientID, ClientName, PriorityLevel (1-5), RequestedTaskIDs (comma-separated), GroupTag, AttributesJSON`,
-      workers: `Worker fields: WorkerID, WorkerName, Skills (comma-separated), AvailableSlots (array like [1,2,3]), MaxLoadPerPhase, WorkerGroup, QualificationLevel`,
-      tasks: `Task fields: TaskID, TaskName, Category, Duration (number), RequiredSkills (comma-separated), PreferredPhases (range "1-3" or list [1,2,3]), MaxConcurrent`
-    };
 
     const sampleData = data[activeTab].slice(0, 3).map(row => {
       const summary: any = {};
@@ -197,7 +195,8 @@ export class GeminiService {
     "${query}"
     
     Currently viewing: ${activeTab} data
-    ${contextByType[activeTab]}
+    ${activeTab} fields:
+    ${describeSchema(activeTab)}
     
     Sample data:
     ${JSON.stringify(sampleData, null, 2)}
@@ -264,12 +263,16 @@ export class GeminiService {
   // Apply data modifications
   applyDataModification(modification: DataModification, data: any[]): { modifiedData: any[], affectedRows: number } {
     let modifiedData = [...data];
+    // Criteria are evaluated against the typed model so numeric and list operators behave on real values.
+    // Columns outside the schema are kept as uploaded so criteria on them still match.
+    const { entities } = normalizeEntities(modification.entityType, data);
+    const rows = data.map((row, index) => ({ ...row, ...entities[index] }));
     let affectedRows = 0;
 
     switch (modification.action) {
       case 'update':
         modifiedData = modifiedData.map((row, index) => {
-          if (this.matchesCriteria(row, modification.criteria)) {
+          if (this.matchesCriteria(rows[index], modification.criteria)) {
             affectedRows++;
             return this.applyUpdates(row, modification.updates);
           }
@@ -293,7 +296,7 @@ export class GeminiService {
 
       case 'delete':
         const originalLength = modifiedData.length;
-        modifiedData = modifiedData.filter(row => !this.matchesCriteria(row, modification.criteria));
+        modifiedData = modifiedData.filter((_, index) => !this.matchesCriteria(rows[index], modification.criteria));
         affectedRows = originalLength - modifiedData.length;
         break;
     }
@@ -313,16 +316,20 @@ export class GeminiService {
         if ('$gte' in operators && !(row[field] >= operators.$gte)) return false;
         if ('$lte' in operators && !(row[field] <= operators.$lte)) return false;
         if ('$contains' in operators) {
-          const fieldValue = String(row[field] || '').toLowerCase();
           const searchValue = String(operators.$contains).toLowerCase();
-          if (!fieldValue.includes(searchValue)) return false;
+          if (Array.isArray(row[field])) {
+            if (!row[field].some((item: any) => String(item).toLowerCase() === searchValue)) return false;
+          } else {
+            const fieldValue = String(row[field] || '').toLowerCase();
+            if (!fieldValue.includes(searchValue)) return false;
+          }
         }
       } else if (Array.isArray(value)) {
         // Handle array of values (OR condition)
         if (!value.includes(row[field])) return false;
       } else {
-        // Direct equality
-        if (row[field] !== value) return false;
+        // Direct equality, loose on type since criteria may say "5" for a numeric field
+        if (row[field] !== value && String(row[field]) !== String(value)) return false;
       }
     }
 
@@ -358,7 +365,7 @@ export class GeminiService {
   }
 
   // Parse natural language rule request
-  async parseNaturalLanguageRule(query: string, data: { clients: any[], workers: any[], tasks: any[] }): Promise<any> {
+  async parseNaturalLanguageRule(query: string, data: EntityState): Promise<any> {
     const context = `
     Available data:
     - Task IDs: ${data.tasks.slice(0, 10).map(t => t.TaskID).join(', ')}${data.tasks.length > 10 ? '...' : ''}
@@ -392,7 +399,7 @@ export class GeminiService {
     For coRun: include "tasks" array
     For slotRestriction: include "groupType", "groupName", "minCommonSlots"
     For loadLimit: include "workerGroup", "maxSlotsPerPhase"
-    For phaseWindow: include "taskId", "allowedPhases"
+    For phaseWindow: include "taskId", "allowedPhases" (array of phase numbers, e.g. "phases 1-3,5" → [1,2,3,5])
     
     If the request doesn't match any rule type or references invalid data, return null.
     Only return the JSON object or null, no other text.
@@ -403,6 +410,11 @@ export class GeminiService {
       const jsonMatch = response.match(/\{[\s\S]*\}|null/);
       if (jsonMatch) {
         const result = jsonMatch[0] === 'null' ? null : JSON.parse(jsonMatch[0]);
+        if (result?.type === 'phaseWindow') {
+          const allowedPhases = tryParsePhaseSet(result.allowedPhases);
+          if (!allowedPhases || allowedPhases.length === 0) return null;
+          result.allowedPhases = allowedPhases;
+        }
         return result;
       }
       return null;
@@ -413,7 +425,7 @@ export class GeminiService {
   }
 
   // AI Rule Recommendations (Milestone 3)
-  async generateRuleRecommendations(data: { clients: any[], workers: any[], tasks: any[] }): Promise<RuleRecommendation[]> {
+  async generateRuleRecommendations(data: EntityState): Promise<RuleRecommendation[]> {
     if (data.clients.length === 0 || data.workers.length === 0 || data.tasks.length === 0) {
       return [];
     }
@@ -422,17 +434,13 @@ export class GeminiService {
       totalClients: data.clients.length,
       totalWorkers: data.workers.length,
       totalTasks: data.tasks.length,
-      clientPriorities: data.clients.map(c => c.PriorityLevel).filter(p => typeof p === 'number'),
+      clientPriorities: data.clients.map(c => c.PriorityLevel).filter((p): p is number => p !== null),
       workerGroups: [...new Set(data.workers.map(w => w.WorkerGroup))].filter(Boolean),
       clientGroups: [...new Set(data.clients.map(c => c.GroupTag))].filter(Boolean),
       taskCategories: [...new Set(data.tasks.map(t => t.Category))].filter(Boolean),
-      workerSkills: [...new Set(data.workers.flatMap(w => 
-        w.Skills ? w.Skills.toString().split(',').map(s => s.trim()) : []
-      ))].filter(Boolean),
-      taskSkills: [...new Set(data.tasks.flatMap(t => 
-        t.RequiredSkills ? t.RequiredSkills.toString().split(',').map(s => s.trim()) : []
-      ))].filter(Boolean),
-      averageTaskDuration: data.tasks.reduce((sum, t) => sum + (parseInt(t.Duration) || 0), 0) / data.tasks.length,
+      workerSkills: [...new Set(data.workers.flatMap(w => w.Skills))],
+      taskSkills: [...new Set(data.tasks.flatMap(t => t.RequiredSkills))],
+      averageTaskDuration: data.tasks.reduce((sum, t) => sum + (t.Duration || 0), 0) / data.tasks.length,
       // Sample task pairs for co-run analysis
       sampleTaskPairs: data.tasks.slice(0, 6).map(t => t.TaskID).filter(Boolean)
     };
@@ -511,8 +519,12 @@ export class GeminiService {
               return rec.ruleData.workerGroup && typeof rec.ruleData.maxSlotsPerPhase === 'number';
             case 'slotRestriction':
               return rec.ruleData.groupName && rec.ruleData.groupType && typeof rec.ruleData.minCommonSlots === 'number';
-            case 'phaseWindow':
-              return rec.ruleData.taskId && Array.isArray(rec.ruleData.allowedPhases);
+            case 'phaseWindow': {
+              const allowedPhases = tryParsePhaseSet(rec.ruleData.allowedPhases);
+              if (!rec.ruleData.taskId || !allowedPhases || allowedPhases.length === 0) return false;
+              rec.ruleData.allowedPhases = allowedPhases;
+              return true;
+            }
             default:
               return false;
           }
@@ -535,35 +547,12 @@ export class GeminiService {
       row: e.row >= 0 ? data[e.row] : null
     }));
     
-    const contextByType = {
-      clients: `
-        Context for client data:
-        - PriorityLevel must be between 1 and 5 (integer)
-        - RequestedTaskIDs should be comma-separated task IDs (e.g., "T1,T2,T3")
-        - AttributesJSON must be valid JSON or empty
-        - GroupTag is a text identifier`,
-      workers: `
-        Context for worker data:
-        - AvailableSlots must be an array of phase numbers like [1,2,3,4,5]
-        - Skills should be comma-separated text (e.g., "Python,JavaScript,React")
-        - MaxLoadPerPhase must be a positive integer
-        - QualificationLevel must be a positive integer
-        - WorkerGroup is a text identifier`,
-      tasks: `
-        Context for task data:
-        - Duration is the number of phases (must be >= 1)
-        - PreferredPhases can be:
-          * Range format: "1-3" (meaning phases 1 through 3)
-          * List format: [1,2,3] or "1,2,3" (specific phase numbers)
-        - RequiredSkills should be comma-separated text
-        - MaxConcurrent must be a positive integer`
-    };
-    
     const prompt = `
     These validation errors were found in ${entityType} data:
     ${JSON.stringify(errorSummary, null, 2)}
     
-    ${contextByType[entityType] || ''}
+    Context for ${entityType} data:
+    ${describeSchema(entityType as EntityType)}
     
     For each error, suggest a specific fix that would resolve the validation error.
     Focus on these types of fixes:
@@ -572,7 +561,7 @@ export class GeminiService {
     - For broken JSON, suggest empty object {}
     - For malformed lists, suggest proper format
     - For invalid Duration or MaxConcurrent, suggest 1
-    - For PreferredPhases, suggest either "1-3" format or "[1,2,3]" format
+    - For PreferredPhases, suggest a range like "1-3", a list like "[1,2,3]" or a mix like "1-3,5"
     - For AvailableSlots, suggest array format like [1,2,3,4]
     
     Return a JSON array with this structure:
@@ -597,7 +586,10 @@ export class GeminiService {
       const jsonMatch = response.match(/\[[\s\S]*\]/);
       if (jsonMatch) {
         const fixes = JSON.parse(jsonMatch[0]);
-        return fixes.filter((fix: any) => fix.errorIndex < errors.length);
+        // Fixes are tied to the row by identity, not position, so they stay correct if rows move
+        return fixes
+          .filter((fix: any) => fix.errorIndex < errors.length)
+          .map((fix: any) => ({ ...fix, rowId: errors[fix.errorIndex].rowId }));
       }
       return [];
     } catch (error) {
@@ -0,0 +1,62 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Validator, DataRow, ErrorCode } from '../validations';
+import { EntityType } from '../entities';
+import { getAutoFix, applyAllAutoFixes } from '../autoFix';
+import { Dataset, clientRow, dataset, taskRow, workerRow } from './fixtures';
+
+const validate = (type: EntityType, data: Dataset) => {
+  const validator = new Validator();
+  (['clients', 'workers', 'tasks'] as EntityType[]).forEach(t => validator.setData(t, data[t]));
+  return validator.validateData(type, data[type]);
+};
+
+const fixFor = (type: EntityType, data: Dataset, code: ErrorCode) => {
+  const error = validate(type, data).find(e => e.code === code);
+  assert.ok(error, `expected a ${code} error`);
+  return getAutoFix(type, error, data[type]);
+};
+
+describe('getAutoFix', () => {
+  test('clamps a value into its allowed range', () => {
+    const data = dataset({ clients: [clientRow({ PriorityLevel: 9 })] });
+    assert.equal(fixFor('clients', data, 'OUT_OF_RANGE')?.newValue, '5');
+  });
+
+  test('keeps the number in a numeric cell with extra text', () => {
+    const data = dataset({ tasks: [taskRow({ Duration: 'about 3' })] });
+    assert.equal(fixFor('tasks', data, 'NOT_A_NUMBER')?.newValue, '3');
+  });
+
+  test('salvages the readable phases of a malformed list', () => {
+    const data = dataset({ workers: [workerRow({ AvailableSlots: '1, 2-3, x' })] });
+    assert.equal(fixFor('workers', data, 'MALFORMED_SLOTS')?.newValue, '[1,2,3]');
+  });
+
+  test('strips unknown task references', () => {
+    const data = dataset({
+      clients: [clientRow({ RequestedTaskIDs: 'T1,T9' })],
+      tasks: [taskRow({ TaskID: 'T1' })]
+    });
+    assert.equal(fixFor('clients', data, 'UNKNOWN_TASK_REF')?.newValue, 'T1');
+  });
+
+  // These errors are left for a person or the AI suggestions rather than guessed at
+  test('gives up on values it cannot salvage', () => {
+    assert.equal(fixFor('tasks', dataset({ tasks: [taskRow({ Duration: 'long' })] }), 'NOT_A_NUMBER'), null);
+    assert.equal(fixFor('workers', dataset({ workers: [workerRow({ AvailableSlots: 'mornings' })] }), 'MALFORMED_SLOTS'), null);
+  });
+});
+
+describe('applyAllAutoFixes', () => {
+  test('gives each duplicate its own new ID', () => {
+    const rows: DataRow[] = [clientRow({ ClientID: 'C1' }), clientRow({ ClientID: 'C1' }), clientRow({ ClientID: 'C1' })];
+    const data = dataset({ clients: rows });
+
+    const { rows: fixed, fixes } = applyAllAutoFixes('clients', validate('clients', data), data.clients);
+
+    assert.equal(fixes.length, 2);
+    assert.deepEqual(fixed.map(row => row.ClientID), ['C1', 'C2', 'C3']);
+    assert.deepEqual(validate('clients', { ...data, clients: fixed }), []);
+  });
+});
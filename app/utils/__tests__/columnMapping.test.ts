@@ -0,0 +1,44 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AI_CONFIDENCE, applyColumnMapping, getMissingColumns, mapColumnsLocally, mergeAiMapping } from '../columnMapping';
+
+const targets = (headers: string[]) => mapColumnsLocally(headers, 'clients').map(m => [m.target, m.source]);
+
+describe('mapColumnsLocally', () => {
+  test('matches exact names regardless of case and punctuation, then synonyms', () => {
+    assert.deepEqual(targets(['client_id', 'Customer Name', 'Prio']), [
+      ['ClientID', 'exact'],
+      ['ClientName', 'synonym'],
+      ['PriorityLevel', 'synonym']
+    ]);
+  });
+
+  test('accepts near-misses and leaves unrelated headers unmapped', () => {
+    assert.deepEqual(targets(['PriortyLevel', 'Notes']), [['PriorityLevel', 'fuzzy'], [null, 'none']]);
+  });
+
+  // "client" is a synonym of both ClientID and ClientName
+  test('never maps two headers to the same column', () => {
+    const matches = mapColumnsLocally(['ClientID', 'Client'], 'clients');
+    assert.deepEqual(matches.map(m => m.target), ['ClientID', 'ClientName']);
+  });
+});
+
+describe('mergeAiMapping', () => {
+  test('fills unresolved headers only with known, unclaimed columns', () => {
+    const local = mapColumnsLocally(['ClientID', 'Ref', 'Label', 'Band'], 'clients');
+
+    const merged = mergeAiMapping(local, { Ref: 'ClientID', Label: 'ClientName', Band: 'Budget' }, 'clients');
+
+    assert.deepEqual(merged.map(m => m.target), ['ClientID', null, 'ClientName', null]);
+    assert.equal(merged[2].confidence, AI_CONFIDENCE);
+    assert.deepEqual(getMissingColumns(merged, 'clients'), ['PriorityLevel', 'RequestedTaskIDs', 'GroupTag', 'AttributesJSON']);
+  });
+});
+
+describe('applyColumnMapping', () => {
+  test('renames mapped headers and keeps the rest under their own name', () => {
+    const matches = mapColumnsLocally(['Customer ID', 'Notes'], 'clients');
+    assert.deepEqual(applyColumnMapping([{ 'Customer ID': 'C1', Notes: 'VIP' }], matches), [{ ClientID: 'C1', Notes: 'VIP' }]);
+  });
+});
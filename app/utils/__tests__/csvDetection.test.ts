@@ -0,0 +1,56 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildCsvPreview, detectCsvFormat, detectEncoding, sniffDelimiter } from '../csvDetection';
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+describe('detectEncoding', () => {
+  test('trusts a byte order mark', () => {
+    assert.deepEqual(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x41])), { encoding: 'utf-8', hasBom: true });
+    assert.deepEqual(detectEncoding(new Uint8Array([0xff, 0xfe, 0x41, 0x00])), { encoding: 'utf-16le', hasBom: true });
+    assert.deepEqual(detectEncoding(new Uint8Array([0xfe, 0xff, 0x00, 0x41])), { encoding: 'utf-16be', hasBom: true });
+  });
+
+  test('falls back to Windows-1252 for bytes that are not UTF-8', () => {
+    // "Café," with é as the single Windows-1252 byte 0xE9
+    assert.deepEqual(detectEncoding(new Uint8Array([0x43, 0x61, 0x66, 0xe9, 0x2c])), { encoding: 'windows-1252', hasBom: false });
+  });
+
+  test('accepts UTF-8 cut off in the middle of a character', () => {
+    assert.equal(detectEncoding(utf8('Café').slice(0, -1)).encoding, 'utf-8');
+  });
+});
+
+describe('sniffDelimiter', () => {
+  test('prefers the delimiter that splits every line the same way', () => {
+    assert.equal(sniffDelimiter('TaskID;Duration;Weight\nT1;2;1,5\nT2;3;2,25\nT3;1;'), ';');
+    assert.equal(sniffDelimiter('TaskID\tDuration\nT1\t2\nT2\t3'), '\t');
+    assert.equal(sniffDelimiter('TaskID|Duration\nT1|2'), '|');
+  });
+
+  test('ignores delimiters inside quotes', () => {
+    assert.equal(sniffDelimiter('ClientID;Name\nC1;"Acme, Inc."\nC2;"Foo, Bar, Baz"\nC3;x'), ';');
+  });
+
+  test('defaults to a comma for a single column', () => {
+    assert.equal(sniffDelimiter('TaskID\nT1\nT2'), ',');
+  });
+});
+
+describe('detectCsvFormat', () => {
+  test('reads past a UTF-8 BOM to find the delimiter', () => {
+    const bytes = new Uint8Array([0xef, 0xbb, 0xbf, ...utf8('ClientID;Name\nC1;Acme\n')]);
+
+    const format = detectCsvFormat(bytes);
+
+    assert.deepEqual(format, { encoding: 'utf-8', delimiter: ';', hasBom: true });
+    assert.deepEqual(buildCsvPreview(bytes, format), { headers: ['ClientID', 'Name'], rows: [['C1', 'Acme']] });
+  });
+});
+
+describe('buildCsvPreview', () => {
+  test('shows the header and the first rows only', () => {
+    const text = ['ID', 'A', 'B', 'C', 'D'].join('\n');
+    assert.deepEqual(buildCsvPreview(utf8(text), { encoding: 'utf-8', delimiter: ',' }, 2), { headers: ['ID'], rows: [['A'], ['B']] });
+  });
+});
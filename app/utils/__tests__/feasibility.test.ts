@@ -0,0 +1,236 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeCapacity, findDurationWindow, findCoRunClusters, describeCoRunProblems } from '../feasibility';
+import { Rule } from '../rules';
+import { entities, rule, skillIndex, taskRow, workerRow } from './fixtures';
+
+describe('analyzeCapacity', () => {
+  test('staffs every task when qualified workers cover the phases', () => {
+    const data = entities({
+      workers: [workerRow({ WorkerID: 'W1', AvailableSlots: '[1,2]' })],
+      tasks: [taskRow({ TaskID: 'T1', Duration: 2, PreferredPhases: '1-2' })]
+    });
+
+    const analysis = analyzeCapacity([], data, skillIndex, null);
+
+    assert.equal(analysis.demand, 2);
+    assert.equal(analysis.assigned, 2);
+    assert.deepEqual(analysis.shortTasks, []);
+    assert.deepEqual(analysis.bottleneckPhases, []);
+  });
+
+  test('does not let concurrent workers in one phase make up for Duration', () => {
+    const tasks = [taskRow({ TaskID: 'T1', Duration: 2, PreferredPhases: '1', MaxConcurrent: 2 })];
+    const workers = [
+      workerRow({ WorkerID: 'W1', AvailableSlots: '[1]' }),
+      workerRow({ WorkerID: 'W2', AvailableSlots: '[1]' })
+    ];
+    const data = entities({ workers, tasks });
+
+    const analysis = analyzeCapacity([], data, skillIndex, null);
+
+    assert.equal(analysis.assigned, 1);
+    assert.deepEqual(analysis.shortTasks, [{ taskId: 'T1', demand: 2, assigned: 1 }]);
+    // The duration check agrees the task can't run
+    assert.equal(findDurationWindow(data.tasks[0], [], data, skillIndex, null)!.window, null);
+  });
+
+  test('reports the phase whose qualified capacity runs out, with the skills left waiting', () => {
+    const data = entities({
+      workers: [
+        workerRow({ WorkerID: 'W1', Skills: 'Python', AvailableSlots: '[1]' }),
+        workerRow({ WorkerID: 'W2', Skills: 'JavaScript', AvailableSlots: '[2]' })
+      ],
+      tasks: [
+        taskRow({ TaskID: 'T1', RequiredSkills: 'Python', PreferredPhases: '1' }),
+        taskRow({ TaskID: 'T2', RequiredSkills: 'Python', PreferredPhases: '1' }),
+        taskRow({ TaskID: 'T3', RequiredSkills: 'JavaScript', PreferredPhases: '2' })
+      ]
+    });
+
+    const analysis = analyzeCapacity([], data, skillIndex, null);
+
+    assert.equal(analysis.demand, 3);
+    assert.equal(analysis.assigned, 2);
+    assert.equal(analysis.shortTasks.length, 1);
+    assert.deepEqual(analysis.bottleneckPhases, [{ phase: 1, capacity: 1, skills: ['Python'] }]);
+  });
+
+  test('caps worker load with the load-limit rule on their group', () => {
+    const data = entities({
+      workers: [workerRow({ WorkerID: 'W1', WorkerGroup: 'Dev', MaxLoadPerPhase: 2, AvailableSlots: '[1]' })],
+      tasks: [
+        taskRow({ TaskID: 'T1', PreferredPhases: '1' }),
+        taskRow({ TaskID: 'T2', PreferredPhases: '1' })
+      ]
+    });
+    const loadLimit = rule({ type: 'loadLimit', workerGroup: 'Dev', maxSlotsPerPhase: 1 });
+
+    assert.equal(analyzeCapacity([], data, skillIndex, null).assigned, 2);
+
+    const limited = analyzeCapacity([loadLimit], data, skillIndex, null);
+    assert.equal(limited.assigned, 1);
+    assert.deepEqual(limited.bottleneckPhases, [{ phase: 1, capacity: 1, skills: ['Python'] }]);
+  });
+
+  test('moves flexible tasks out of a contested phase before calling it short', () => {
+    const data = entities({
+      workers: [workerRow({ WorkerID: 'W1', AvailableSlots: '[1,2]' })],
+      tasks: [
+        taskRow({ TaskID: 'T1', PreferredPhases: '1-2' }),
+        taskRow({ TaskID: 'T2', PreferredPhases: '1' })
+      ]
+    });
+
+    const analysis = analyzeCapacity([], data, skillIndex, null);
+
+    assert.equal(analysis.assigned, 2);
+    assert.deepEqual(analysis.shortTasks, []);
+  });
+
+  test('leaves tasks nobody is qualified for to the skill check', () => {
+    const data = entities({
+      workers: [workerRow({ Skills: 'Python' })],
+      tasks: [taskRow({ TaskID: 'T1', RequiredSkills: 'Rust' })]
+    });
+
+    const analysis = analyzeCapacity([], data, skillIndex, null);
+
+    assert.equal(analysis.demand, 0);
+    assert.deepEqual(analysis.shortTasks, []);
+  });
+});
+
+describe('findDurationWindow', () => {
+  const windowFor = (task: Record<string, any>, workers: Record<string, any>[], rules: Rule[] = [], maxPhase: number | null = null) => {
+    const data = entities({ workers: workers.map(workerRow), tasks: [taskRow(task)] });
+    return findDurationWindow(data.tasks[0], rules, data, skillIndex, maxPhase);
+  };
+
+  test('runs anywhere a worker is free when the task has no phase restriction', () => {
+    const result = windowFor({ Duration: 2, PreferredPhases: '' }, [{ AvailableSlots: '[4,5]' }]);
+    assert.deepEqual(result?.window, { phases: [4, 5], workerId: 'W1' });
+  });
+
+  test('stays within PreferredPhases', () => {
+    const result = windowFor({ Duration: 2, PreferredPhases: '2-3' }, [{ AvailableSlots: '[1,2,3,4]' }]);
+    assert.deepEqual(result?.window?.phases, [2, 3]);
+  });
+
+  test('uses a phase-window rule instead of PreferredPhases', () => {
+    const phaseWindow = rule({ type: 'phaseWindow', taskId: 'T1', allowedPhases: [3, 4] });
+    const result = windowFor({ Duration: 2, PreferredPhases: '1-2' }, [{ AvailableSlots: '[1,2,3,4]' }], [phaseWindow]);
+    assert.deepEqual(result?.window?.phases, [3, 4]);
+  });
+
+  test('needs the phases to be consecutive for one worker', () => {
+    const result = windowFor({ Duration: 2, PreferredPhases: '' }, [{ AvailableSlots: '[1,3,5]' }]);
+    assert.equal(result?.window, null);
+    assert.deepEqual(result?.best, { phases: [1], workerId: 'W1' });
+  });
+
+  test('does not combine two workers into one window', () => {
+    const result = windowFor({ Duration: 2, PreferredPhases: '' }, [
+      { WorkerID: 'W1', AvailableSlots: '[1]' },
+      { WorkerID: 'W2', AvailableSlots: '[2]' }
+    ]);
+    assert.equal(result?.window, null);
+  });
+
+  test('reports the longest partial window when Duration is longer than any window', () => {
+    const result = windowFor({ Duration: 4, PreferredPhases: '1-3' }, [
+      { WorkerID: 'W1', AvailableSlots: '[1,2]' },
+      { WorkerID: 'W2', AvailableSlots: '[1,2,3]' }
+    ]);
+    assert.equal(result?.window, null);
+    assert.deepEqual(result?.best, { phases: [1, 2, 3], workerId: 'W2' });
+  });
+
+  test('ignores slots beyond the last phase', () => {
+    const result = windowFor({ Duration: 2, PreferredPhases: '' }, [{ AvailableSlots: '[3,4]' }], [], 3);
+    assert.equal(result?.window, null);
+  });
+
+  test('returns null when nobody is qualified', () => {
+    assert.equal(windowFor({ RequiredSkills: 'Rust' }, [{ Skills: 'Python' }]), null);
+  });
+});
+
+describe('findCoRunClusters', () => {
+  const tasks = ['T1', 'T2', 'T3', 'T4'].map(TaskID => taskRow({ TaskID, PreferredPhases: '1-3' }));
+  const workers = [workerRow({ WorkerID: 'W1', MaxLoadPerPhase: 4 })];
+
+  test('keeps rules with no task in common apart', () => {
+    const rules = [
+      rule({ type: 'coRun', tasks: ['T1', 'T2'] }),
+      rule({ type: 'coRun', tasks: ['T3', 'T4'] })
+    ];
+
+    const clusters = findCoRunClusters(rules, entities({ workers, tasks }), skillIndex);
+
+    assert.deepEqual(clusters.map(c => c.taskIds), [['T1', 'T2'], ['T3', 'T4']]);
+    assert.deepEqual(clusters.flatMap(describeCoRunProblems), []);
+  });
+
+  test('merges rules that share a task, including through a chain of rules', () => {
+    const rules = [
+      rule({ type: 'coRun', name: 'A', tasks: ['T1', 'T2'] }),
+      rule({ type: 'coRun', name: 'B', tasks: ['T3', 'T4'] }),
+      rule({ type: 'coRun', name: 'C', tasks: ['T2', 'T3'] })
+    ];
+
+    const [cluster, ...others] = findCoRunClusters(rules, entities({ workers, tasks }), skillIndex);
+
+    assert.deepEqual(others, []);
+    assert.deepEqual(cluster.taskIds, ['T1', 'T2', 'T3', 'T4']);
+    assert.deepEqual(cluster.rules.map(r => r.name), ['A', 'B', 'C']);
+    assert.deepEqual(cluster.sharedTasks, [
+      { taskId: 'T2', ruleNames: ['A', 'C'] },
+      { taskId: 'T3', ruleNames: ['B', 'C'] }
+    ]);
+    assert.deepEqual(describeCoRunProblems(cluster).map(p => p.type), ['warning', 'warning']);
+  });
+
+  test('reports overlapping rules whose tasks share no phase once, as a cluster', () => {
+    const data = entities({
+      workers,
+      tasks: [
+        taskRow({ TaskID: 'T1', PreferredPhases: '1' }),
+        taskRow({ TaskID: 'T2', PreferredPhases: '1-2' }),
+        taskRow({ TaskID: 'T3', PreferredPhases: '2' })
+      ]
+    });
+    const rules = [
+      rule({ type: 'coRun', tasks: ['T1', 'T2'] }),
+      rule({ type: 'coRun', tasks: ['T2', 'T3'] })
+    ];
+
+    const [cluster] = findCoRunClusters(rules, data, skillIndex);
+    const errors = describeCoRunProblems(cluster).filter(p => p.type === 'error');
+
+    assert.deepEqual(cluster.commonPhases, []);
+    assert.equal(errors.length, 1);
+    assert.match(errors[0].message, /^Co-run cluster T1, T2, T3 has no phase common/);
+  });
+
+  test('names the rule when a single rule has no common phase', () => {
+    const data = entities({
+      workers,
+      tasks: [taskRow({ TaskID: 'T1', PreferredPhases: '1' }), taskRow({ TaskID: 'T2', PreferredPhases: '3' })]
+    });
+    const [cluster] = findCoRunClusters([rule({ type: 'coRun', name: 'Launch', tasks: ['T1', 'T2'] })], data, skillIndex);
+
+    assert.deepEqual(describeCoRunProblems(cluster).map(p => p.message), [
+      'Co-run rule "Launch" has no phase common to all of its tasks: T1 (phases: 1), T2 (phases: 3)'
+    ]);
+  });
+
+  test('flags a cluster that needs more workers in one phase than are qualified', () => {
+    const data = entities({ workers: [workerRow({ MaxLoadPerPhase: 1 })], tasks });
+    const [cluster] = findCoRunClusters([rule({ type: 'coRun', tasks: ['T1', 'T2'] })], data, skillIndex);
+
+    assert.equal(cluster.demand, 2);
+    assert.equal(cluster.capacity, 1);
+    assert.equal(describeCoRunProblems(cluster)[0].type, 'error');
+  });
+});
@@ -0,0 +1,68 @@
+// app/utils/__tests__/fixtures.ts
+// Builders for test data: rows as an upload gives them (text cells, phase lists as written in
+// CSV) with sensible defaults, so each test only spells out the columns it is about.
+import { DataRow } from '../validations';
+import { EntityType, EntityState, normalizeAll } from '../entities';
+import { Rule } from '../rules';
+import { withRowIds } from '../rowIdentity';
+import { SkillIndex, DEFAULT_SKILL_TAXONOMY, buildSkillIndex } from '../skills';
+
+export const clientRow = (fields: DataRow = {}): DataRow => ({
+  ClientID: 'C1',
+  ClientName: 'Client',
+  PriorityLevel: 3,
+  RequestedTaskIDs: '',
+  GroupTag: 'Standard',
+  AttributesJSON: '{}',
+  ...fields
+});
+
+export const workerRow = (fields: DataRow = {}): DataRow => ({
+  WorkerID: 'W1',
+  WorkerName: 'Worker',
+  Skills: 'Python',
+  AvailableSlots: '[1,2,3]',
+  MaxLoadPerPhase: 1,
+  WorkerGroup: 'Dev',
+  QualificationLevel: 3,
+  ...fields
+});
+
+export const taskRow = (fields: DataRow = {}): DataRow => ({
+  TaskID: 'T1',
+  TaskName: 'Task',
+  Category: 'Dev',
+  Duration: 1,
+  RequiredSkills: 'Python',
+  PreferredPhases: '[1,2,3]',
+  MaxConcurrent: 1,
+  ...fields
+});
+
+export type Dataset = Record<EntityType, DataRow[]>;
+
+// Rows with identities, as they are held once loaded
+export const dataset = (data: Partial<Dataset>): Dataset => ({
+  clients: withRowIds(data.clients || []),
+  workers: withRowIds(data.workers || []),
+  tasks: withRowIds(data.tasks || [])
+});
+
+export const entities = (data: Partial<Dataset>): EntityState => normalizeAll(dataset(data));
+
+let ruleCount = 0;
+
+// An enabled rule with its bookkeeping fields filled in
+export const rule = (fields: Partial<Rule> & Pick<Rule, 'type'> & Record<string, any>): Rule => {
+  ruleCount++;
+  return {
+    id: `rule-${ruleCount}`,
+    name: `Rule ${ruleCount}`,
+    priority: 1,
+    enabled: true,
+    createdAt: new Date(0),
+    ...fields
+  } as Rule;
+};
+
+export const skillIndex: SkillIndex = buildSkillIndex(DEFAULT_SKILL_TAXONOMY);
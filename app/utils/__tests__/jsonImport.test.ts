@@ -0,0 +1,46 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseJsonEntities, toDataRow } from '../jsonImport';
+
+describe('toDataRow', () => {
+  test('writes values the way a CSV upload holds them', () => {
+    assert.deepEqual(
+      toDataRow({ WorkerID: 'W1', Skills: ['Python', 'SQL'], AvailableSlots: [1, 2], MaxLoadPerPhase: 2, Notes: null, Meta: { team: 'A' } }),
+      { WorkerID: 'W1', Skills: 'Python,SQL', AvailableSlots: '[1,2]', MaxLoadPerPhase: 2, Notes: '', Meta: '{"team":"A"}' }
+    );
+  });
+});
+
+describe('parseJsonEntities', () => {
+  test('reads an array of records, collecting headers across records', () => {
+    const [sheet] = parseJsonEntities('[{"TaskID":"T1","Duration":1},{"TaskID":"T2","PreferredPhases":[1,2]}]', 'tasks.json');
+
+    assert.equal(sheet.entityType, 'tasks');
+    assert.deepEqual(sheet.headers, ['TaskID', 'Duration', 'PreferredPhases']);
+    assert.deepEqual(sheet.rows, [{ TaskID: 'T1', Duration: 1 }, { TaskID: 'T2', PreferredPhases: '[1,2]' }]);
+  });
+
+  test('splits an object keyed by entity into one set per entity', () => {
+    const sheets = parseJsonEntities('{"clients":[{"ClientID":"C1"}],"tasks":[{"TaskID":"T1"}],"version":2}', 'project.json');
+    assert.deepEqual(sheets.map(s => [s.sheetName, s.entityType, s.rows.length]), [['clients', 'clients', 1], ['tasks', 'tasks', 1]]);
+  });
+
+  test('unwraps an object holding a single array', () => {
+    const [sheet] = parseJsonEntities('{"data":[{"WorkerID":"W1","Skills":["Python"]}]}', 'export.json');
+    assert.deepEqual(sheet.rows, [{ WorkerID: 'W1', Skills: 'Python' }]);
+  });
+
+  test('reads NDJSON, also when it is saved as .json', () => {
+    const text = '{"ClientID":"C1"}\n\n{"ClientID":"C2"}\n';
+    assert.equal(parseJsonEntities(text, 'clients.ndjson')[0].rows.length, 2);
+    assert.equal(parseJsonEntities(text, 'clients.json')[0].rows.length, 2);
+  });
+
+  test('names the NDJSON line that does not parse', () => {
+    assert.throws(() => parseJsonEntities('{"ClientID":"C1"}\n{oops}', 'clients.jsonl'), /line 2/);
+  });
+
+  test('rejects JSON without records', () => {
+    assert.throws(() => parseJsonEntities('{"a":[1],"b":[2]}', 'x.json'), /does not contain an array of records/);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mapColumnsLocally } from '../columnMapping';
+import { findProfile, getHeaderSignature, mergeProfiles, parseProfiles, profileToMatches, serializeProfiles, upsertProfile } from '../mappingProfiles';
+
+const matches = mapColumnsLocally(['Emp ID', 'Full Name', 'Notes'], 'workers');
+
+describe('getHeaderSignature', () => {
+  test('ignores column order, case and punctuation', () => {
+    assert.equal(getHeaderSignature(['Emp ID', 'Full Name']), getHeaderSignature(['full_name', 'emp_id']));
+    assert.notEqual(getHeaderSignature(['Emp ID', 'Full Name']), getHeaderSignature(['Emp ID']));
+  });
+});
+
+describe('upsertProfile', () => {
+  test('replaces the profile for the same header layout and entity', () => {
+    const saved = upsertProfile([], 'HR export', 'workers', matches);
+    const resaved = upsertProfile(saved, 'HR export v2', 'workers', matches);
+    const forTasks = upsertProfile(resaved, 'Other', 'tasks', matches);
+
+    assert.equal(resaved.length, 1);
+    assert.equal(resaved[0].id, saved[0].id);
+    assert.equal(resaved[0].name, 'HR export v2');
+    assert.equal(forTasks.length, 2);
+    assert.equal(findProfile(forTasks, ['notes', 'full name', 'emp-id'], 'workers')?.name, 'HR export v2');
+  });
+});
+
+describe('profileToMatches', () => {
+  test('maps headers written differently from the saved ones', () => {
+    const [profile] = upsertProfile([], 'HR export', 'workers', matches);
+
+    assert.deepEqual(profileToMatches(profile, ['emp_id', 'FULL NAME', 'notes']).map(m => [m.target, m.source]), [
+      ['WorkerID', 'profile'],
+      ['WorkerName', 'profile'],
+      [null, 'none']
+    ]);
+  });
+});
+
+describe('parseProfiles', () => {
+  test('reads back a serialized file', () => {
+    const profiles = upsertProfile([], 'HR export', 'workers', matches);
+    assert.deepEqual(parseProfiles(serializeProfiles(profiles)), profiles);
+  });
+
+  test('drops incomplete profiles and recomputes signatures', () => {
+    const parsed = parseProfiles(JSON.stringify([
+      { name: 'Kept', entityType: 'workers', headers: ['Emp ID'], mapping: { 'Emp ID': 'WorkerID' }, signature: 'stale' },
+      { name: 'No headers', entityType: 'workers', mapping: {} }
+    ]));
+
+    assert.deepEqual(parsed.map(p => p.name), ['Kept']);
+    assert.equal(parsed[0].signature, getHeaderSignature(['Emp ID']));
+  });
+
+  test('rejects files without profiles', () => {
+    assert.throws(() => parseProfiles('{"rules":[]}'), /does not contain mapping profiles/);
+  });
+});
+
+describe('mergeProfiles', () => {
+  test('lets imported profiles replace local ones for the same layout', () => {
+    const [local] = upsertProfile([], 'Local', 'workers', matches);
+    const [other] = upsertProfile([], 'Tasks', 'tasks', matches);
+    const [imported] = upsertProfile([], 'Imported', 'workers', matches);
+
+    assert.deepEqual(mergeProfiles([local, other], [imported]).map(p => p.name), ['Tasks', 'Imported']);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyChanges, diffRows, summarizeChanges } from '../mergeData';
+import { getRowId, withRowIds } from '../rowIdentity';
+
+const existing = withRowIds([
+  { TaskID: 'T1', Duration: '1', Notes: 'keep' },
+  { TaskID: 'T2', Duration: '2' }
+]);
+const incoming = [
+  { TaskID: 'T1', Duration: '3' },
+  { TaskID: 'T3', Duration: '1' }
+];
+
+describe('diffRows', () => {
+  test('upsert changes matching IDs and adds the rest', () => {
+    const changes = diffRows('tasks', existing, incoming, 'upsert');
+
+    assert.deepEqual(summarizeChanges(changes), { added: 1, changed: 1, removed: 0 });
+    // Notes is missing from the upload, so it is left alone rather than cleared
+    assert.deepEqual(changes[0].fields, [{ field: 'Duration', oldValue: '1', newValue: '3' }]);
+  });
+
+  test('replace also removes rows the upload no longer has', () => {
+    const changes = diffRows('tasks', existing, incoming, 'replace');
+    assert.deepEqual(changes.filter(c => c.kind === 'removed').map(c => c.id), ['T2']);
+  });
+
+  test('append adds every row, even with a known ID', () => {
+    assert.deepEqual(summarizeChanges(diffRows('tasks', existing, incoming, 'append')), { added: 2, changed: 0, removed: 0 });
+  });
+
+  test('skips rows that are unchanged apart from spacing', () => {
+    assert.deepEqual(diffRows('tasks', existing, [{ TaskID: 'T2 ', Duration: ' 2' }], 'upsert'), []);
+  });
+});
+
+describe('applyChanges', () => {
+  test('applies only the accepted changes and keeps row identities', () => {
+    const changes = diffRows('tasks', existing, incoming, 'replace');
+    const accepted = new Set(changes.filter(c => c.kind !== 'removed').map(c => c.key));
+
+    const { rows, unmatched } = applyChanges('tasks', existing, changes, accepted);
+
+    assert.deepEqual(unmatched, []);
+    assert.deepEqual(rows.map(row => [row.TaskID, row.Duration, row.Notes]), [
+      ['T1', '3', 'keep'],
+      ['T2', '2', undefined],
+      ['T3', '1', undefined]
+    ]);
+    assert.equal(getRowId(rows[0]), getRowId(existing[0]));
+  });
+
+  test('reports accepted changes whose row has gone', () => {
+    const changes = diffRows('tasks', existing, incoming, 'upsert');
+    const withoutT1 = existing.slice(1);
+
+    const { rows, unmatched } = applyChanges('tasks', withoutT1, changes, new Set(changes.map(c => c.key)));
+
+    assert.deepEqual(unmatched.map(c => c.id), ['T1']);
+    assert.deepEqual(rows.map(row => row.TaskID), ['T2', 'T3']);
+  });
+});
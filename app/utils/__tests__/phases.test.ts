@@ -0,0 +1,64 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_PHASE_RANGE, formatPhaseSet, parsePhaseSet, phasesBeyond, tryParsePhaseSet } from '../phases';
+
+describe('parsePhaseSet', () => {
+  test('reads every supported form into sorted, unique phases', () => {
+    assert.deepEqual(parsePhaseSet('3'), [3]);
+    assert.deepEqual(parsePhaseSet('1-3'), [1, 2, 3]);
+    assert.deepEqual(parsePhaseSet('5, 2,2'), [2, 5]);
+    assert.deepEqual(parsePhaseSet('[1,2,5]'), [1, 2, 5]);
+    assert.deepEqual(parsePhaseSet('7-8,1 - 3;5'), [1, 2, 3, 5, 7, 8]);
+    assert.deepEqual(parsePhaseSet(4), [4]);
+  });
+
+  test('accepts arrays of numbers or expressions', () => {
+    assert.deepEqual(parsePhaseSet([3, 1]), [1, 3]);
+    assert.deepEqual(parsePhaseSet(['1-2', '"4"']), [1, 2, 4]);
+  });
+
+  test('reads empty values as no phases', () => {
+    assert.deepEqual(parsePhaseSet(null), []);
+    assert.deepEqual(parsePhaseSet(''), []);
+    assert.deepEqual(parsePhaseSet('[]'), []);
+  });
+
+  test('rejects malformed terms, reversed and oversized ranges and phase 0', () => {
+    assert.throws(() => parsePhaseSet('1,x'), /Invalid phase "x"/);
+    assert.throws(() => parsePhaseSet('3-1'), /end is before start/);
+    assert.throws(() => parsePhaseSet(`1-${MAX_PHASE_RANGE + 1}`), /too long/);
+    assert.throws(() => parsePhaseSet('0-2'), /start at 1/);
+  });
+
+  test('rejects phases beyond maxPhase when one is set', () => {
+    assert.throws(() => parsePhaseSet('1-7', { maxPhase: 6 }), /Phase 7 is beyond the last phase \(6\)/);
+    assert.deepEqual(parsePhaseSet('1-7', { maxPhase: null }), [1, 2, 3, 4, 5, 6, 7]);
+  });
+});
+
+describe('tryParsePhaseSet', () => {
+  test('returns null for parse errors only', () => {
+    assert.equal(tryParsePhaseSet('2-1'), null);
+    assert.deepEqual(tryParsePhaseSet('1-2'), [1, 2]);
+  });
+});
+
+describe('formatPhaseSet', () => {
+  test('collapses consecutive phases into ranges', () => {
+    assert.equal(formatPhaseSet([8, 1, 2, 3, 5, 7, 3]), '1-3,5,7-8');
+    assert.equal(formatPhaseSet([4]), '4');
+    assert.equal(formatPhaseSet([]), '');
+  });
+
+  test('round-trips through parsePhaseSet', () => {
+    const phases = [1, 2, 4, 6, 7, 8];
+    assert.deepEqual(parsePhaseSet(formatPhaseSet(phases)), phases);
+  });
+});
+
+describe('phasesBeyond', () => {
+  test('lists phases past the last one, if there is a last one', () => {
+    assert.deepEqual(phasesBeyond([1, 5, 7], 5), [7]);
+    assert.deepEqual(phasesBeyond([1, 5, 7], null), []);
+  });
+});
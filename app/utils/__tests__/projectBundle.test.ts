@@ -0,0 +1,72 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as XLSX from 'xlsx';
+import { parseProjectBundle, readProjectBundle, restoreWeights } from '../projectBundle';
+import { DEFAULT_WEIGHTS } from '../rules';
+
+const rulesJson = JSON.stringify({
+  rules: [{ type: 'coRun', name: 'Launch', tasks: ['T1', 'T2'], priority: 1 }],
+  prioritization: { priorityLevel: 0.5, customWeights: { urgency: 0.2 } },
+  settings: { maxPhase: '6' },
+  metadata: {
+    validationPolicy: {
+      suppressions: [{ id: 's1', code: 'CORUN_CLUSTER', ruleId: 'rule_old', ruleName: 'Launch', note: 'Known', createdAt: '' }],
+      severityOverrides: {}
+    }
+  }
+});
+
+describe('parseProjectBundle', () => {
+  test('restores data, rules, weights, settings and the validation policy', () => {
+    const bundle = parseProjectBundle([
+      { name: 'clients_cleaned.csv', text: '\uFEFFClientID,PriorityLevel\nC1,3\n' },
+      { name: 'rules.json', text: rulesJson }
+    ]);
+
+    assert.deepEqual(bundle.data, { clients: [{ ClientID: 'C1', PriorityLevel: 3 }] });
+    assert.equal(bundle.rules?.length, 1);
+    assert.equal(bundle.rules?.[0].enabled, true);
+    assert.notEqual(bundle.rules?.[0].id, undefined);
+    assert.equal(bundle.weights?.priorityLevel, 0.5);
+    assert.equal(bundle.maxPhase, 6);
+    // The suppression follows its rule to the id it was given on restore
+    assert.equal(bundle.validationPolicy?.suppressions[0].ruleId, bundle.rules?.[0].id);
+  });
+
+  test('detects renamed entity files by their headers and skips the rest', () => {
+    const bundle = parseProjectBundle([
+      { name: 'staff.csv', text: 'WorkerID,WorkerName,Skills,AvailableSlots,MaxLoadPerPhase\nW1,Ana,Python,"[1,2]",1\n' },
+      { name: 'workers.csv', text: 'WorkerID\nW2\n' },
+      { name: 'notes.json', text: '{"author":"me"}' }
+    ]);
+
+    assert.deepEqual(Object.keys(bundle.data), ['workers']);
+    assert.equal(bundle.data.workers?.[0].WorkerID, 'W1');
+    assert.deepEqual(bundle.skippedFiles, ['workers.csv', 'notes.json']);
+    assert.equal(bundle.rules, null);
+  });
+
+  test('rejects a JSON file that does not parse', () => {
+    assert.throws(() => parseProjectBundle([{ name: 'rules.json', text: '{' }]), /rules.json is not valid JSON/);
+  });
+});
+
+describe('readProjectBundle', () => {
+  test('reads the files inside a zip', async () => {
+    const archive = XLSX.CFB.utils.cfb_new();
+    XLSX.CFB.utils.cfb_add(archive, 'export/tasks_cleaned.csv', Buffer.from('TaskID,Duration\nT1,2\n'));
+    XLSX.CFB.utils.cfb_add(archive, 'export/rules.json', Buffer.from(rulesJson));
+    const zip = XLSX.CFB.write(archive, { fileType: 'zip', type: 'array' }) as number[];
+
+    const bundle = await readProjectBundle([new File([new Uint8Array(zip)], 'project.zip')]);
+
+    assert.deepEqual(bundle.data.tasks, [{ TaskID: 'T1', Duration: 2 }]);
+    assert.equal(bundle.rules?.[0].name, 'Launch');
+  });
+});
+
+describe('restoreWeights', () => {
+  test('fills in weights missing from an older export', () => {
+    assert.deepEqual(restoreWeights({ skillMatching: 0.4 }), { ...DEFAULT_WEIGHTS, skillMatching: 0.4 });
+  });
+});
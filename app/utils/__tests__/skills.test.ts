@@ -0,0 +1,39 @@
+import { describe, test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_SKILL_TAXONOMY, loadSkillTaxonomy, parseSkillTaxonomy } from '../skills';
+
+describe('parseSkillTaxonomy', () => {
+  test('fills in missing alias and parent lists', () => {
+    assert.deepEqual(parseSkillTaxonomy([{ name: 'Go', aliases: ['Golang'] }]), [{ name: 'Go', aliases: ['Golang'], parents: [] }]);
+  });
+
+  test('rejects anything that is not a list of named skills', () => {
+    assert.equal(parseSkillTaxonomy({ name: 'Go' }), null);
+    assert.equal(parseSkillTaxonomy([{ aliases: [] }]), null);
+    assert.equal(parseSkillTaxonomy([{ name: 'Go', parents: 'C' }]), null);
+    assert.equal(parseSkillTaxonomy([null]), null);
+  });
+});
+
+describe('loadSkillTaxonomy', () => {
+  const storeTaxonomy = (stored: string) => {
+    (globalThis as any).window = { localStorage: { getItem: () => stored } };
+  };
+
+  afterEach(() => {
+    delete (globalThis as any).window;
+  });
+
+  test('reads the stored taxonomy', () => {
+    storeTaxonomy('[{"name":"Go","aliases":[],"parents":[]}]');
+    assert.deepEqual(loadSkillTaxonomy(), [{ name: 'Go', aliases: [], parents: [] }]);
+  });
+
+  test('falls back to the default when storage holds something else', () => {
+    storeTaxonomy('{"Go":[]}');
+    assert.equal(loadSkillTaxonomy(), DEFAULT_SKILL_TAXONOMY);
+
+    storeTaxonomy('[{"name":');
+    assert.equal(loadSkillTaxonomy(), DEFAULT_SKILL_TAXONOMY);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ValidationError } from '../validations';
+import { EMPTY_POLICY, ValidationPolicy, applyValidationPolicy, createSuppression, parseValidationPolicy, relinkRuleSuppressions } from '../suppressions';
+import { getRowId } from '../rowIdentity';
+import { clientRow, dataset, rule } from './fixtures';
+
+const { clients } = dataset({ clients: [clientRow({ ClientID: 'C1' }), clientRow({ ClientID: 'C2' })] });
+
+const rangeError = (index: number): ValidationError => ({
+  type: 'error',
+  code: 'OUT_OF_RANGE',
+  message: 'PriorityLevel must be between 1 and 5',
+  row: index,
+  rowId: getRowId(clients[index]),
+  field: 'PriorityLevel'
+});
+
+const ruleError = (ruleId: string): ValidationError => ({ type: 'error', code: 'CORUN_CLUSTER', message: 'No common phase', row: -1, ruleId });
+
+describe('applyValidationPolicy', () => {
+  test('acknowledges only the entity a suppression names', () => {
+    const policy: ValidationPolicy = {
+      ...EMPTY_POLICY,
+      suppressions: [createSuppression('OUT_OF_RANGE', 'Agreed', { entityType: 'clients', entityId: 'C2' })]
+    };
+
+    const reviewed = applyValidationPolicy(policy, [rangeError(0), rangeError(1)], 'clients', clients);
+
+    assert.deepEqual(reviewed.active.map(e => e.row), [0]);
+    assert.deepEqual(reviewed.acknowledged.map(a => [a.error.row, a.suppression.note]), [[1, 'Agreed']]);
+  });
+
+  test('covers every error with the code when the suppression names nothing', () => {
+    const policy = { ...EMPTY_POLICY, suppressions: [createSuppression('OUT_OF_RANGE', 'Legacy data')] };
+    assert.equal(applyValidationPolicy(policy, [rangeError(0), rangeError(1)], 'clients', clients).active.length, 0);
+  });
+
+  test('matches rule errors on the rule they were found in', () => {
+    const policy = { ...EMPTY_POLICY, suppressions: [createSuppression('CORUN_CLUSTER', 'Known', { ruleId: 'r1', ruleName: 'Launch' })] };
+
+    const reviewed = applyValidationPolicy(policy, [ruleError('r1'), ruleError('r2')]);
+
+    assert.deepEqual(reviewed.active.map(e => e.ruleId), ['r2']);
+  });
+
+  test('applies severity overrides before suppressions', () => {
+    const policy = { ...EMPTY_POLICY, severityOverrides: { OUT_OF_RANGE: { severity: 'warning' as const, note: '' } } };
+
+    const [error] = applyValidationPolicy(policy, [rangeError(0)], 'clients', clients).active;
+
+    assert.equal(error.type, 'warning');
+  });
+});
+
+describe('parseValidationPolicy', () => {
+  test('drops suppressions without a note and unknown severities', () => {
+    const policy = parseValidationPolicy({
+      suppressions: [
+        { code: 'OUT_OF_RANGE', note: 'Agreed' },
+        { code: 'OUT_OF_RANGE', note: '  ' },
+        { note: 'No code' }
+      ],
+      severityOverrides: { ID_FORMAT: { severity: 'warning' }, OUT_OF_RANGE: { severity: 'info' } }
+    });
+
+    assert.deepEqual(policy.suppressions.map(s => s.note), ['Agreed']);
+    assert.deepEqual(policy.severityOverrides, { ID_FORMAT: { severity: 'warning', note: '' } });
+    assert.equal(parseValidationPolicy('nonsense'), EMPTY_POLICY);
+  });
+});
+
+describe('relinkRuleSuppressions', () => {
+  test('moves rule suppressions to the current id of the rule with the same name', () => {
+    const launch = rule({ type: 'coRun', name: 'Launch', tasks: ['T1', 'T2'] });
+    const stale = createSuppression('CORUN_CLUSTER', 'Known', { ruleId: 'rule_old', ruleName: 'Launch' });
+    const orphan = createSuppression('CORUN_CLUSTER', 'Gone', { ruleId: 'rule_gone', ruleName: 'Deleted' });
+
+    const { suppressions } = relinkRuleSuppressions({ ...EMPTY_POLICY, suppressions: [stale, orphan] }, [launch]);
+
+    assert.deepEqual(suppressions.map(s => s.ruleId), [launch.id, 'rule_gone']);
+  });
+});
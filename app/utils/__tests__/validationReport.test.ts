@@ -0,0 +1,50 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import Papa from 'papaparse';
+import { Validator } from '../validations';
+import { EMPTY_POLICY, applyValidationPolicy, createSuppression } from '../suppressions';
+import { buildValidationReport, reportToCsv } from '../validationReport';
+import { clientRow, dataset } from './fixtures';
+
+const data = dataset({
+  clients: [
+    clientRow({ ClientID: 'C1', PriorityLevel: 9 }),
+    clientRow({ ClientID: 'C1' })
+  ]
+});
+
+const reportFor = (policy = EMPTY_POLICY) => {
+  const validator = new Validator();
+  validator.setData('clients', data.clients);
+  const errors = validator.validateData('clients', data.clients);
+  const none = { active: [], acknowledged: [] };
+  return buildValidationReport({
+    data,
+    reviewed: { clients: applyValidationPolicy(policy, errors, 'clients', data.clients), workers: none, tasks: none, rules: none },
+    policy,
+    maxPhase: null
+  });
+};
+
+describe('reportToCsv', () => {
+  test('writes a plain table with one row per finding', async () => {
+    const report = await reportFor();
+
+    const { data: rows, meta, errors } = Papa.parse<Record<string, string>>(reportToCsv(report), { header: true });
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(meta.fields, ['scope', 'entityId', 'row', 'field', 'value', 'code', 'severity', 'status', 'message', 'ruleId', 'note']);
+    assert.deepEqual(rows.map(row => [row.row, row.code, row.status]), [['2', 'DUPLICATE_ID', 'open'], ['1', 'OUT_OF_RANGE', 'open']]);
+  });
+
+  test('keeps acknowledged findings with their note', async () => {
+    const report = await reportFor({ ...EMPTY_POLICY, suppressions: [createSuppression('OUT_OF_RANGE', 'Agreed with sales')] });
+
+    const { data: rows } = Papa.parse<Record<string, string>>(reportToCsv(report), { header: true });
+
+    assert.deepEqual(rows.map(row => [row.code, row.status, row.note]), [
+      ['DUPLICATE_ID', 'open', ''],
+      ['OUT_OF_RANGE', 'acknowledged', 'Agreed with sales']
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Validator } from '../validations';
+import { getRowId } from '../rowIdentity';
+import { Dataset, clientRow, dataset, rule, taskRow, workerRow } from './fixtures';
+
+const validatorFor = (data: Dataset) => {
+  const validator = new Validator();
+  validator.setData('clients', data.clients);
+  validator.setData('workers', data.workers);
+  validator.setData('tasks', data.tasks);
+  return validator;
+};
+
+describe('capacity findings', () => {
+  const data = dataset({
+    workers: [workerRow({ WorkerID: 'W1', AvailableSlots: '[1]' })],
+    tasks: [
+      taskRow({ TaskID: 'T1', PreferredPhases: '1' }),
+      taskRow({ TaskID: 'T2', PreferredPhases: '1' })
+    ]
+  });
+
+  test('are reported with the tasks, the shortfall on the dataset and understaffing on the task row', () => {
+    const errors = validatorFor(data).validateData('tasks', data.tasks);
+
+    const shortfall = errors.find(e => e.code === 'CAPACITY_SHORTFALL');
+    assert.equal(shortfall?.row, -1);
+    assert.deepEqual(shortfall?.details, { demand: 2, assigned: 1 });
+    assert.deepEqual(errors.find(e => e.code === 'PHASE_BOTTLENECK')?.details, { phase: 1, capacity: 1, skills: ['Python'] });
+
+    const understaffed = errors.filter(e => e.code === 'TASKS_UNDERSTAFFED');
+    assert.equal(understaffed.length, 1);
+    assert.equal(understaffed[0].rowId, getRowId(data.tasks[understaffed[0].row]));
+  });
+
+  test('are not rule errors', () => {
+    assert.deepEqual(validatorFor(data).validateRules([]), []);
+  });
+
+  test('are re-checked when workers change', () => {
+    const withSecondWorker = { ...data, workers: [...data.workers, ...dataset({ workers: [workerRow({ WorkerID: 'W2', AvailableSlots: '[1]' })] }).workers] };
+    const results = new Validator().validateAffected(['workers'], withSecondWorker);
+
+    assert.deepEqual(results.tasks?.map(e => e.code), []);
+  });
+});
+
+describe('duplicate IDs', () => {
+  test('point at the first row by its identity, not its position', () => {
+    const data = dataset({ clients: [clientRow({ ClientID: 'C1' }), clientRow({ ClientID: 'C2' }), clientRow({ ClientID: 'C1' })] });
+
+    const [duplicate] = validatorFor(data).validateData('clients', data.clients);
+
+    assert.equal(duplicate.code, 'DUPLICATE_ID');
+    assert.equal(duplicate.rowId, getRowId(data.clients[2]));
+    assert.deepEqual(duplicate.details, { id: 'C1', firstRowId: getRowId(data.clients[0]) });
+    assert.doesNotMatch(duplicate.message, /row \d/);
+  });
+});
+
+describe('worker checks', () => {
+  // MaxLoadPerPhase caps the tasks in one phase; it says nothing about how many phases a worker has
+  test('accept a per-phase load above the number of available slots', () => {
+    const data = dataset({ workers: [workerRow({ AvailableSlots: '[2]', MaxLoadPerPhase: 2 })] });
+    assert.deepEqual(validatorFor(data).validateData('workers', data.workers), []);
+  });
+});
+
+describe('scheduling checks', () => {
+  const codesFor = (data: Dataset) => validatorFor(data).validateData('tasks', data.tasks).map(e => e.code);
+
+  test('report a task with no window of Duration phases', () => {
+    const data = dataset({
+      workers: [workerRow({ AvailableSlots: '[1,3]' })],
+      tasks: [taskRow({ Duration: 2, PreferredPhases: '' })]
+    });
+    assert.ok(codesFor(data).includes('NO_DURATION_WINDOW'));
+  });
+
+  test('are skipped while a worker\'s AvailableSlots is malformed', () => {
+    const data = dataset({
+      workers: [workerRow({ WorkerID: 'W1', AvailableSlots: '[1,x]' }), workerRow({ WorkerID: 'W2', AvailableSlots: '[1]' })],
+      tasks: [taskRow({ TaskID: 'T1', Duration: 2, PreferredPhases: '1' }), taskRow({ TaskID: 'T2', PreferredPhases: '1' })]
+    });
+    assert.deepEqual(codesFor(data), []);
+    assert.deepEqual(validatorFor(data).validateData('workers', data.workers).map(e => e.code), ['MALFORMED_SLOTS']);
+  });
+
+  test('are skipped for a task whose own phases are malformed', () => {
+    const data = dataset({
+      workers: [workerRow({ AvailableSlots: '[1]' })],
+      tasks: [taskRow({ Duration: 2, PreferredPhases: '1-x' })]
+    });
+    assert.deepEqual(codesFor(data), ['MALFORMED_SLOTS']);
+  });
+});
+
+describe('co-run rule checks', () => {
+  test('raise one error per co-run problem', () => {
+    const data = dataset({
+      workers: [workerRow({ MaxLoadPerPhase: 2 })],
+      tasks: [taskRow({ TaskID: 'T1', PreferredPhases: '1' }), taskRow({ TaskID: 'T2', PreferredPhases: '2' })]
+    });
+    const coRun = rule({ type: 'coRun', tasks: ['T1', 'T2'] });
+
+    const errors = validatorFor(data).validateRules([coRun]);
+
+    assert.deepEqual(errors.map(e => [e.code, e.ruleId]), [['CORUN_CLUSTER', coRun.id]]);
+  });
+});
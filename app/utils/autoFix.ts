@@ -0,0 +1,131 @@
+// app/utils/autoFix.ts
+import { DataRow, ValidationError, ErrorCode } from './validations';
+import { EntityType, ID_FIELDS, formatCellValue } from './entities';
+import { tryParsePhaseSet } from './phases';
+import { findRowIndex, getRowId } from './rowIdentity';
+
+// A built-in fix for one error: the same input always gives the same change, no network needed
+export interface AutoFix {
+  rowId: string;
+  field: string;
+  oldValue: any;
+  newValue: any;
+  description: string;
+}
+
+type Fixer = (value: any, error: ValidationError, type: EntityType, rows: DataRow[]) => { newValue: any; description: string } | null;
+
+const ID_PREFIXES: Record<EntityType, string> = {
+  clients: 'C',
+  workers: 'W',
+  tasks: 'T'
+};
+
+// Next unused ID in the C1, C2, ... sequence
+function nextFreeId(type: EntityType, rows: DataRow[]): string {
+  const prefix = ID_PREFIXES[type];
+  const pattern = new RegExp(`^${prefix}(\\d+)$`);
+  const highest = rows.reduce((max, row) => {
+    const match = String(row[ID_FIELDS[type]] ?? '').trim().match(pattern);
+    return match ? Math.max(max, parseInt(match[1])) : max;
+  }, 0);
+  return `${prefix}${highest + 1}`;
+}
+
+// Keep every term that reads as a phase or range and drop the rest, e.g. "1, 2-3, x" -> [1,2,3]
+function salvagePhases(value: any): number[] {
+  const phases = String(value ?? '')
+    .split(/[^\d-]+/)
+    .flatMap(term => tryParsePhaseSet(term) || []);
+  return Array.from(new Set(phases)).sort((a, b) => a - b);
+}
+
+const FIXERS: Partial<Record<ErrorCode, Fixer>> = {
+  OUT_OF_RANGE: (value, error) => {
+    const { min, max } = error.details || {};
+    const num = parseInt(value);
+    if (isNaN(num)) return null;
+    const clamped = Math.min(max ?? num, Math.max(min ?? num, num));
+    return { newValue: String(clamped), description: `Clamp ${error.field} to ${clamped}` };
+  },
+
+  NOT_A_NUMBER: (value, error) => {
+    const match = String(value ?? '').match(/-?\d+/);
+    return match ? { newValue: match[0], description: `Keep the number in ${error.field}` } : null;
+  },
+
+  MALFORMED_SLOTS: (value, error) => {
+    const phases = salvagePhases(value);
+    return phases.length > 0
+      ? { newValue: formatCellValue(phases), description: `Rewrite ${error.field} as a clean phase list` }
+      : null;
+  },
+
+  PHASE_BEYOND_MAX: (value, error) => {
+    const { maxPhase } = error.details || {};
+    const phases = (tryParsePhaseSet(value) || []).filter(phase => phase <= maxPhase);
+    return { newValue: formatCellValue(phases), description: `Drop ${error.field} phases after phase ${maxPhase}` };
+  },
+
+  BROKEN_JSON: (value, error) => ({
+    // Wrap rather than discard, so whatever was written is still there to look at
+    newValue: String(value ?? '').trim() ? JSON.stringify({ note: String(value).trim() }) : '{}',
+    description: `Wrap ${error.field} text in a JSON object`
+  }),
+
+  UNKNOWN_TASK_REF: (value, error) => {
+    const unknown = new Set<string>(error.details?.unknownIds || []);
+    const kept = String(value ?? '')
+      .replace(/^\[|\]$/g, '')
+      .split(',')
+      .map(id => id.trim().replace(/^["']|["']$/g, ''))
+      .filter(id => id && !unknown.has(id));
+    return { newValue: kept.join(','), description: `Remove unknown tasks ${Array.from(unknown).join(', ')}` };
+  },
+
+  DUPLICATE_ID: (_value, _error, type, rows) => {
+    const id = nextFreeId(type, rows);
+    return { newValue: id, description: `Renumber the duplicate to ${id}` };
+  },
+
+  MISSING_ID: (_value, _error, type, rows) => {
+    const id = nextFreeId(type, rows);
+    return { newValue: id, description: `Assign ID ${id}` };
+  },
+
+  MAX_CONCURRENT_EXCEEDS_WORKERS: (_value, error) => {
+    const { qualifiedWorkers } = error.details || {};
+    return qualifiedWorkers >= 1
+      ? { newValue: String(qualifiedWorkers), description: `Lower MaxConcurrent to the ${qualifiedWorkers} qualified workers` }
+      : null;
+  }
+};
+
+// The fix for an error against the current rows, or null if the error has no fixer or its row is gone
+export function getAutoFix(type: EntityType, error: ValidationError, rows: DataRow[]): AutoFix | null {
+  const fixer = FIXERS[error.code];
+  const index = findRowIndex(rows, error.rowId);
+  if (!fixer || !error.field || index < 0) return null;
+
+  const oldValue = rows[index][error.field];
+  const fix = fixer(oldValue, error, type, rows);
+  if (!fix || String(fix.newValue) === String(oldValue ?? '')) return null;
+  return { rowId: error.rowId!, field: error.field, oldValue, ...fix };
+}
+
+export function applyAutoFix(rows: DataRow[], fix: AutoFix): DataRow[] {
+  return rows.map(row => (getRowId(row) === fix.rowId ? { ...row, [fix.field]: fix.newValue } : row));
+}
+
+// Apply every available fix in order. Each fix sees the rows as left by the previous one,
+// so renumbered duplicates get distinct IDs.
+export function applyAllAutoFixes(type: EntityType, errors: ValidationError[], rows: DataRow[]): { rows: DataRow[]; fixes: AutoFix[] } {
+  const fixes: AutoFix[] = [];
+  const fixed = errors.reduce((current, error) => {
+    const fix = getAutoFix(type, error, current);
+    if (!fix) return current;
+    fixes.push(fix);
+    return applyAutoFix(current, fix);
+  }, rows);
+  return { rows: fixed, fixes };
+}
@@ -0,0 +1,136 @@
+// app/utils/columnMapping.ts
+import { DataRow, REQUIRED_COLUMNS } from './validations';
+import { EntityType } from './entities';
+import { ColumnSchema, getSchema } from './schema';
+
+export type MatchSource = 'exact' | 'synonym' | 'fuzzy' | 'ai' | 'manual' | 'profile' | 'none';
+
+export interface ColumnMatch {
+  header: string;
+  target: string | null;
+  confidence: number;
+  source: MatchSource;
+}
+
+// Matches scoring below this are left for the AI mapper / the user to resolve
+export const MIN_CONFIDENCE = 0.7;
+
+// Confidence given to mappings returned by Gemini, which carry no score of their own
+export const AI_CONFIDENCE = 0.6;
+
+export const normalizeHeader = (header: string) => header.toString().toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(current[j - 1] + 1, previous[j] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+const similarity = (a: string, b: string) => 1 - levenshtein(a, b) / Math.max(a.length, b.length, 1);
+
+function scoreHeader(header: string, column: ColumnSchema): { confidence: number; source: MatchSource } {
+  const normalized = normalizeHeader(header);
+  const target = normalizeHeader(column.name);
+  if (!normalized) return { confidence: 0, source: 'none' };
+
+  if (normalized === target) {
+    return { confidence: 1, source: 'exact' };
+  }
+
+  const synonyms = column.synonyms || [];
+  if (synonyms.includes(normalized)) {
+    return { confidence: 0.9, source: 'synonym' };
+  }
+
+  // Fuzzy match against the column name and its synonyms, slightly discounted so
+  // an exact synonym always wins over a near-miss
+  const fuzzy = Math.max(
+    similarity(normalized, target),
+    ...synonyms.map(synonym => similarity(normalized, synonym) * 0.95)
+  );
+  return { confidence: Math.round(fuzzy * 100) / 100, source: 'fuzzy' };
+}
+
+// Greedily assign each header to its best-scoring expected column, highest confidence first,
+// so a column is never claimed by two headers.
+export function mapColumnsLocally(headers: string[], entityType: EntityType): ColumnMatch[] {
+  const expectedColumns = getSchema(entityType);
+  const candidates: { header: string; column: string; confidence: number; source: MatchSource }[] = [];
+
+  headers.forEach(header => {
+    expectedColumns.forEach(column => {
+      const { confidence, source } = scoreHeader(header, column);
+      if (confidence >= MIN_CONFIDENCE) {
+        candidates.push({ header, column: column.name, confidence, source });
+      }
+    });
+  });
+
+  candidates.sort((a, b) => b.confidence - a.confidence);
+
+  const matches = new Map<string, ColumnMatch>();
+  const claimedColumns = new Set<string>();
+
+  candidates.forEach(candidate => {
+    if (matches.has(candidate.header) || claimedColumns.has(candidate.column)) return;
+    matches.set(candidate.header, {
+      header: candidate.header,
+      target: candidate.column,
+      confidence: candidate.confidence,
+      source: candidate.source
+    });
+    claimedColumns.add(candidate.column);
+  });
+
+  return headers.map(header => matches.get(header) || { header, target: null, confidence: 0, source: 'none' });
+}
+
+export function getUnresolvedHeaders(matches: ColumnMatch[]): string[] {
+  return matches.filter(m => !m.target).map(m => m.header);
+}
+
+export function getMissingColumns(matches: ColumnMatch[], entityType: EntityType): string[] {
+  const mapped = new Set(matches.map(m => m.target).filter(Boolean));
+  return REQUIRED_COLUMNS[entityType].filter(col => !mapped.has(col));
+}
+
+// Fold AI suggestions for the unresolved headers into the local matches. Suggestions that
+// point at an unknown or already-mapped column are ignored.
+export function mergeAiMapping(matches: ColumnMatch[], aiMapping: Record<string, string | null>, entityType: EntityType): ColumnMatch[] {
+  const expectedColumns = REQUIRED_COLUMNS[entityType];
+  const claimedColumns = new Set(matches.map(m => m.target).filter(Boolean));
+
+  return matches.map(match => {
+    if (match.target) return match;
+    const suggestion = aiMapping[match.header];
+    if (!suggestion || !expectedColumns.includes(suggestion) || claimedColumns.has(suggestion)) {
+      return match;
+    }
+    claimedColumns.add(suggestion);
+    return { ...match, target: suggestion, confidence: AI_CONFIDENCE, source: 'ai' };
+  });
+}
+
+// Unmapped headers keep their original name so no data is silently dropped
+export function applyColumnMapping(rows: DataRow[], matches: ColumnMatch[]): DataRow[] {
+  const mapping = new Map(matches.map(m => [m.header, m.target || m.header]));
+
+  return rows.map(row => {
+    const mappedRow: DataRow = {};
+    Object.entries(row).forEach(([key, value]) => {
+      mappedRow[mapping.get(key) || key] = value;
+    });
+    return mappedRow;
+  });
+}
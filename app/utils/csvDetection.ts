@@ -0,0 +1,113 @@
+// app/utils/csvDetection.ts
+import Papa from 'papaparse';
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+export const DELIMITERS: { value: CsvDelimiter; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' }
+];
+
+export const ENCODINGS: { value: string; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'windows-1252', label: 'Windows-1252 (Western European)' },
+  { value: 'iso-8859-1', label: 'ISO-8859-1 (Latin-1)' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' }
+];
+
+export interface CsvFormat {
+  encoding: string;
+  delimiter: CsvDelimiter;
+  hasBom: boolean;
+}
+
+export interface CsvPreview {
+  headers: string[];
+  rows: string[][];
+}
+
+// Enough bytes to sniff the format and show a preview without reading the whole file
+const SAMPLE_BYTES = 64 * 1024;
+const SNIFF_LINES = 20;
+
+export async function readFileSample(file: File): Promise<Uint8Array> {
+  return new Uint8Array(await file.slice(0, SAMPLE_BYTES).arrayBuffer());
+}
+
+// Byte order marks decide the encoding outright. Without one, bytes that are not valid UTF-8
+// are almost always a legacy Windows export, so fall back to Windows-1252.
+export function detectEncoding(bytes: Uint8Array): { encoding: string; hasBom: boolean } {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { encoding: 'utf-8', hasBom: true };
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: 'utf-16le', hasBom: true };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { encoding: 'utf-16be', hasBom: true };
+
+  try {
+    // stream: true so a multi-byte character cut off at the end of the sample is not an error
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return { encoding: 'utf-8', hasBom: false };
+  } catch (e) {
+    return { encoding: 'windows-1252', hasBom: false };
+  }
+}
+
+// TextDecoder only drops a BOM that matches the chosen encoding, so strip any left after a manual override
+export function decodeSample(bytes: Uint8Array, encoding: string): string {
+  return new TextDecoder(encoding).decode(bytes).replace(/^\uFEFF/, '');
+}
+
+// Count delimiter occurrences outside quoted fields
+function countOutsideQuotes(line: string, delimiter: string): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count++;
+  }
+  return count;
+}
+
+// Pick the delimiter that splits the first lines into the same, non-zero number of fields.
+// Consistency matters more than frequency: "1,5" decimals in a semicolon file must not win.
+export function sniffDelimiter(text: string): CsvDelimiter {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '').slice(0, SNIFF_LINES);
+  // The last line of a sample may be truncated
+  if (lines.length > 2) lines.pop();
+
+  let best: CsvDelimiter = ',';
+  let bestScore = 0;
+
+  DELIMITERS.forEach(({ value }) => {
+    const counts = lines.map(line => countOutsideQuotes(line, value));
+    const headerCount = counts[0] || 0;
+    if (headerCount === 0) return;
+
+    const consistent = counts.filter(c => c === headerCount).length / counts.length;
+    const score = consistent * 100 + headerCount;
+    if (score > bestScore) {
+      bestScore = score;
+      best = value;
+    }
+  });
+
+  return best;
+}
+
+export function detectCsvFormat(bytes: Uint8Array): CsvFormat {
+  const { encoding, hasBom } = detectEncoding(bytes);
+  const delimiter = sniffDelimiter(decodeSample(bytes, encoding));
+  return { encoding, delimiter, hasBom };
+}
+
+export function buildCsvPreview(bytes: Uint8Array, format: Pick<CsvFormat, 'encoding' | 'delimiter'>, rowCount = 5): CsvPreview {
+  const text = decodeSample(bytes, format.encoding);
+  const results = Papa.parse<string[]>(text, {
+    delimiter: format.delimiter,
+    preview: rowCount + 1,
+    skipEmptyLines: true
+  });
+  const [headers = [], ...rows] = results.data;
+  return { headers, rows };
+}
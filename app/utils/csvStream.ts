@@ -0,0 +1,85 @@
+// app/utils/csvStream.ts
+import { DataRow } from './validations';
+
+export interface CsvParseOptions {
+  delimiter?: string;
+  encoding?: string;
+}
+
+export interface CsvParseRequest extends CsvParseOptions {
+  file: File;
+}
+
+export type CsvParseMessage =
+  | { type: 'batch'; headers: string[]; rows: DataRow[]; progress: number }
+  | { type: 'complete'; headers: string[] }
+  | { type: 'error'; message: string };
+
+export interface CsvParseResult {
+  headers: string[];
+  rows: DataRow[];
+}
+
+export interface CsvParseProgress {
+  progress: number;
+  rowsParsed: number;
+}
+
+export interface CsvParseHandle {
+  // Resolves to null when parsing was cancelled
+  promise: Promise<CsvParseResult | null>;
+  cancel: () => void;
+}
+
+// Parse a CSV file off the main thread. Papa streams the file in chunks inside the worker
+// and each chunk is posted back as a batch, so a 100k-row file never blocks the UI.
+export function parseCsvInWorker(
+  file: File,
+  options: CsvParseOptions = {},
+  onProgress?: (progress: CsvParseProgress) => void
+): CsvParseHandle {
+  const worker = new Worker(new URL('../workers/csvParser.worker.ts', import.meta.url));
+  const rows: DataRow[] = [];
+  let headers: string[] = [];
+  let settle: (result: CsvParseResult | null) => void = () => {};
+
+  const promise = new Promise<CsvParseResult | null>((resolve, reject) => {
+    settle = resolve;
+
+    worker.onmessage = (event: MessageEvent<CsvParseMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'batch':
+          if (headers.length === 0) headers = message.headers;
+          // Push in a loop rather than spreading, which overflows the stack on large batches
+          for (const row of message.rows) rows.push(row);
+          onProgress?.({ progress: message.progress, rowsParsed: rows.length });
+          break;
+        case 'complete':
+          if (headers.length === 0) headers = message.headers;
+          worker.terminate();
+          resolve({ headers, rows });
+          break;
+        case 'error':
+          worker.terminate();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'CSV parser worker failed'));
+    };
+  });
+
+  worker.postMessage({ file, ...options } as CsvParseRequest);
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      settle(null);
+    }
+  };
+}
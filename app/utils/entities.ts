@@ -0,0 +1,227 @@
+// app/utils/entities.ts
+import type { DataRow, ValidationError, ErrorCode } from './validations';
+import { ColumnSchema, ColumnType, getSchema } from './schema';
+import { parsePhaseSet, PhaseParseError } from './phases';
+
+export type EntityType = 'clients' | 'workers' | 'tasks';
+
+export const ENTITY_TYPES: EntityType[] = ['clients', 'workers', 'tasks'];
+
+// Typed views of a row; field names and types mirror ENTITY_SCHEMAS in schema.ts
+export interface Client {
+  ClientID: string;
+  ClientName: string;
+  PriorityLevel: number | null;
+  RequestedTaskIDs: string[];
+  GroupTag: string;
+  AttributesJSON: Record<string, any>;
+}
+
+export interface Worker {
+  WorkerID: string;
+  WorkerName: string;
+  Skills: string[];
+  AvailableSlots: number[];
+  MaxLoadPerPhase: number | null;
+  WorkerGroup: string;
+  QualificationLevel: number | null;
+}
+
+export interface Task {
+  TaskID: string;
+  TaskName: string;
+  Category: string;
+  Duration: number | null;
+  RequiredSkills: string[];
+  PreferredPhases: number[];
+  MaxConcurrent: number | null;
+}
+
+export interface EntityMap {
+  clients: Client;
+  workers: Worker;
+  tasks: Task;
+}
+
+export interface EntityState {
+  clients: Client[];
+  workers: Worker[];
+  tasks: Task[];
+}
+
+export interface NormalizationResult<T> {
+  entities: T[];
+  errors: ValidationError[];
+}
+
+export const ID_FIELDS: Record<EntityType, string> = {
+  clients: 'ClientID',
+  workers: 'WorkerID',
+  tasks: 'TaskID'
+};
+
+// Thrown by the field parsers and turned into a ValidationError by the row normaliser
+class FieldParseError extends Error {
+  constructor(message: string, public code: ErrorCode) {
+    super(message);
+  }
+}
+
+const isBlank = (value: any) => value === null || value === undefined || value.toString().trim() === '';
+
+const parseText = (value: any): string => (isBlank(value) ? '' : value.toString().trim());
+
+function parseInteger(value: any, field: string): number | null {
+  if (isBlank(value)) return null;
+  const num = parseInt(value.toString());
+  if (isNaN(num)) {
+    throw new FieldParseError(`${field} must be a number, got: ${value}`, 'NOT_A_NUMBER');
+  }
+  return num;
+}
+
+// Comma-separated text lists, e.g. Skills "Python, SQL" or RequestedTaskIDs "T1,T2"
+function parseTextList(value: any): string[] {
+  if (isBlank(value)) return [];
+  if (Array.isArray(value)) return value.map(v => v.toString().trim()).filter(Boolean);
+  return value.toString()
+    .replace(/^\[|\]$/g, '')
+    .split(',')
+    .map((s: string) => s.trim().replace(/^["']|["']$/g, ''))
+    .filter(Boolean);
+}
+
+// Phase lists such as AvailableSlots "[1,2,3]" or PreferredPhases "1-3,5"; see phases.ts
+function parsePhaseList(value: any, field: string): number[] {
+  try {
+    return parsePhaseSet(value);
+  } catch (e) {
+    if (!(e instanceof PhaseParseError)) throw e;
+    throw new FieldParseError(`Malformed list in ${field} - ${e.message}`, 'MALFORMED_SLOTS');
+  }
+}
+
+function parseJsonObject(value: any, field: string): Record<string, any> {
+  if (isBlank(value)) return {};
+  if (typeof value === 'object' && !Array.isArray(value)) return value;
+  let parsed: any;
+  try {
+    parsed = JSON.parse(value.toString());
+  } catch (e) {
+    throw new FieldParseError(`Broken JSON in ${field}`, 'BROKEN_JSON');
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new FieldParseError(`${field} must be a JSON object`, 'BROKEN_JSON');
+  }
+  return parsed;
+}
+
+// Run one field parser, recording a failure against the row instead of aborting the whole row
+function field<T>(errors: ValidationError[], row: number, name: string, fallback: T, parse: () => T): T {
+  try {
+    return parse();
+  } catch (e) {
+    if (!(e instanceof FieldParseError)) throw e;
+    errors.push({ type: 'error', code: e.code, message: e.message, row, field: name });
+    return fallback;
+  }
+}
+
+const EMPTY_VALUES: Record<ColumnType, () => any> = {
+  id: () => '',
+  text: () => '',
+  integer: () => null,
+  textList: () => [],
+  phaseList: () => [],
+  json: () => ({})
+};
+
+function parseColumn(column: ColumnSchema, value: any): any {
+  if (column.required && column.type !== 'id' && isBlank(value)) {
+    throw new FieldParseError(`${column.name} is required`, 'REQUIRED_VALUE');
+  }
+  switch (column.type) {
+    case 'id':
+    case 'text':
+      return parseText(value);
+    case 'integer':
+      return parseInteger(value, column.name);
+    case 'textList':
+      return parseTextList(value);
+    case 'phaseList':
+      return parsePhaseList(value, column.name);
+    case 'json':
+      return parseJsonObject(value, column.name);
+  }
+}
+
+// Build the typed entity column by column from the entity's schema
+export function normalizeRow<K extends EntityType>(type: K, row: DataRow, index: number, errors: ValidationError[]): EntityMap[K] {
+  const entity: Record<string, any> = {};
+  getSchema(type).forEach(column => {
+    entity[column.name] = field(errors, index, column.name, EMPTY_VALUES[column.type](), () => parseColumn(column, row[column.name]));
+  });
+  return entity as EntityMap[K];
+}
+
+export function normalizeEntities<K extends EntityType>(type: K, rows: DataRow[]): NormalizationResult<EntityMap[K]> {
+  const errors: ValidationError[] = [];
+  const entities = rows.map((row, index) => normalizeRow(type, row, index, errors));
+  return { entities, errors };
+}
+
+export function normalizeAll(data: Record<EntityType, DataRow[]>): EntityState {
+  return {
+    clients: normalizeEntities('clients', data.clients).entities,
+    workers: normalizeEntities('workers', data.workers).entities,
+    tasks: normalizeEntities('tasks', data.tasks).entities
+  };
+}
+
+// Format a typed value the way cells are written in CSV: numeric lists as "[1,2,3]",
+// text lists comma-separated and objects as JSON text
+export function formatCellValue(value: any): any {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) {
+    return value.every(v => typeof v === 'number') ? `[${value.join(',')}]` : value.join(',');
+  }
+  if (typeof value === 'object') {
+    return Object.keys(value).length > 0 ? JSON.stringify(value) : '';
+  }
+  return value;
+}
+
+// Serialise a row through the typed model for export. Fields that failed to parse keep their
+// raw value so an export never silently drops data the user still has to fix, and columns
+// outside the model are passed through untouched.
+export function serializeRow(type: EntityType, row: DataRow): DataRow {
+  const errors: ValidationError[] = [];
+  const entity = normalizeRow(type, row, 0, errors) as Record<string, any>;
+  const failedFields = new Set(errors.map(e => e.field));
+
+  const serialized: DataRow = {};
+  Object.keys(row).forEach(key => {
+    serialized[key] = key in entity && !failedFields.has(key) ? formatCellValue(entity[key]) : row[key];
+  });
+  return serialized;
+}
+
+// The cleaned CSV written by the export, with the columns of the first row
+export function toCleanedCsv(type: EntityType, rows: DataRow[]): string {
+  if (rows.length === 0) return '';
+
+  const headers = Object.keys(rows[0]);
+  return [
+    headers.join(','),
+    ...rows.map(rawRow => serializeRow(type, rawRow)).map(row =>
+      headers.map(header => {
+        const value = row[header];
+        // Escape values containing commas or quotes
+        if (typeof value === 'string' && (value.includes(',') || value.includes('"'))) {
+          return `"${value.replace(/"/g, '""')}"`;
+        }
+        return value ?? '';
+      }).join(',')
+    )
+  ].join('\n');
+}
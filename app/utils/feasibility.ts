@@ -0,0 +1,480 @@
+// app/utils/feasibility.ts
+import { EntityState, Worker, Task } from './entities';
+import { Rule, CoRunRule, PhaseWindowRule, SlotRestrictionRule, LoadLimitRule } from './rules';
+import { SkillIndex, expandSkills, coversSkill, normalizeSkillList } from './skills';
+import { formatPhaseSet } from './phases';
+
+export interface RestrictiveMember {
+  id: string;
+  // How many more slots the group would share without this member
+  slotsFreed: number;
+}
+
+export interface SlotRestrictionAnalysis {
+  memberIds: string[];
+  commonSlots: number[];
+  required: number;
+  feasible: boolean;
+  restrictiveMembers: RestrictiveMember[];
+}
+
+const intersect = (sets: number[][]): number[] =>
+  sets.length === 0 ? [] : sets.reduce((common, slots) => common.filter(slot => slots.includes(slot)));
+
+// Slots each member of the rule's group can use. Workers use their AvailableSlots; clients use
+// the phases their requested tasks can run in. A client with a task that has no phase
+// preference (or no requested tasks at all) doesn't constrain the group and is left out.
+function memberSlots(rule: SlotRestrictionRule, data: EntityState): { id: string; slots: number[] }[] {
+  if (rule.groupType === 'worker') {
+    return data.workers
+      .filter(w => w.WorkerGroup === rule.groupName)
+      .map(w => ({ id: w.WorkerID, slots: w.AvailableSlots }));
+  }
+
+  const tasksById = new Map(data.tasks.map(t => [t.TaskID, t]));
+  return data.clients
+    .filter(c => c.GroupTag === rule.groupName)
+    .flatMap(client => {
+      const tasks = client.RequestedTaskIDs.map(id => tasksById.get(id)).filter(Boolean);
+      if (tasks.length === 0 || tasks.some(task => task!.PreferredPhases.length === 0)) return [];
+      const slots = Array.from(new Set(tasks.flatMap(task => task!.PreferredPhases))).sort((a, b) => a - b);
+      return [{ id: client.ClientID, slots }];
+    });
+}
+
+// Intersect the slots of every member of the rule's group and rank the members by how much
+// of the intersection they remove. Returns null when no member constrains the group.
+export function analyzeSlotRestriction(rule: SlotRestrictionRule, data: EntityState): SlotRestrictionAnalysis | null {
+  const members = memberSlots(rule, data);
+  if (members.length === 0) return null;
+
+  const commonSlots = intersect(members.map(m => m.slots));
+
+  const restrictiveMembers = members.length > 1
+    ? members
+        .map((member, index) => ({
+          id: member.id,
+          slotsFreed: intersect(members.filter((_, i) => i !== index).map(m => m.slots)).length - commonSlots.length
+        }))
+        .filter(member => member.slotsFreed > 0)
+        .sort((a, b) => b.slotsFreed - a.slotsFreed)
+    : [];
+
+  return {
+    memberIds: members.map(m => m.id),
+    commonSlots,
+    required: rule.minCommonSlots,
+    feasible: commonSlots.length >= rule.minCommonSlots,
+    restrictiveMembers
+  };
+}
+
+export interface CoRunCluster {
+  taskIds: string[];
+  rules: { id: string; name: string }[];
+  // Tasks named by more than one rule; these are what merge separate rules into one cluster
+  sharedTasks: { taskId: string; ruleNames: string[] }[];
+  // Phases every task in the cluster can run in; null when no task is limited to particular phases
+  commonPhases: number[] | null;
+  // The tasks that are limited to particular phases, with those phases
+  phaseLimits: { taskId: string; phases: number[] }[];
+  // Worker slots needed to run every task together in one phase, and the most any common
+  // phase offers from qualified workers. Capacity is null until tasks and workers are loaded.
+  demand: number;
+  capacity: number | null;
+}
+
+export interface CoRunProblem {
+  type: 'error' | 'warning';
+  message: string;
+}
+
+// Phases a task may run in: its phase-window rule if it has one, otherwise its preferred phases.
+// Null means the task isn't limited to particular phases.
+function taskPhases(taskId: string, rules: Rule[], data: EntityState): number[] | null {
+  const phaseWindow = rules.find(r => r.type === 'phaseWindow' && r.enabled && r.taskId === taskId) as PhaseWindowRule | undefined;
+  if (phaseWindow) return phaseWindow.allowedPhases;
+  const task = data.tasks.find(t => t.TaskID === taskId);
+  return task && task.PreferredPhases.length > 0 ? task.PreferredPhases : null;
+}
+
+// Co-run is symmetric and transitive: rules that share a task must all run together, so enabled
+// rules are merged into connected clusters with a union-find over task IDs.
+export function findCoRunClusters(rules: Rule[], data: EntityState, skillIndex: SkillIndex): CoRunCluster[] {
+  const coRunRules = rules.filter(r => r.type === 'coRun' && r.enabled && r.tasks.length > 0) as CoRunRule[];
+
+  const parent = new Map<string, string>();
+  const find = (taskId: string): string => {
+    const root = parent.get(taskId)!;
+    if (root === taskId) return root;
+    const compressed = find(root);
+    parent.set(taskId, compressed);
+    return compressed;
+  };
+  const union = (a: string, b: string) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent.set(rootB, rootA);
+  };
+
+  coRunRules.forEach(rule => {
+    rule.tasks.forEach(taskId => {
+      if (!parent.has(taskId)) parent.set(taskId, taskId);
+    });
+    rule.tasks.slice(1).forEach(taskId => union(rule.tasks[0], taskId));
+  });
+
+  const groups = new Map<string, string[]>();
+  parent.forEach((_, taskId) => {
+    const root = find(taskId);
+    groups.set(root, [...(groups.get(root) || []), taskId]);
+  });
+
+  const tasksById = new Map(data.tasks.map(t => [t.TaskID, t]));
+  const workerSkills = data.workers.map(w => ({ worker: w, skills: expandSkills(skillIndex, w.Skills) }));
+
+  return Array.from(groups.values()).map(taskIds => {
+    const clusterRules = coRunRules.filter(rule => rule.tasks.some(taskId => taskIds.includes(taskId)));
+
+    const sharedTasks = taskIds
+      .map(taskId => ({
+        taskId,
+        ruleNames: clusterRules.filter(rule => rule.tasks.includes(taskId)).map(rule => rule.name)
+      }))
+      .filter(shared => shared.ruleNames.length > 1);
+
+    const phaseLimits = taskIds
+      .map(taskId => ({ taskId, phases: taskPhases(taskId, rules, data) }))
+      .filter((limit): limit is { taskId: string; phases: number[] } => limit.phases !== null);
+    const commonPhases = phaseLimits.length > 0 ? intersect(phaseLimits.map(limit => limit.phases)) : null;
+
+    // A worker counts towards the cluster if it can do at least one of its tasks.
+    // Without a common phase there's nothing to measure; that gets its own error.
+    const tasks = taskIds.map(taskId => tasksById.get(taskId)).filter(Boolean);
+    let capacity: number | null = null;
+    if (tasks.length > 0 && data.workers.length > 0 && commonPhases?.length !== 0) {
+      const qualified = workerSkills
+        .filter(({ skills }) => tasks.some(task => task!.RequiredSkills.every(skill => coversSkill(skillIndex, skills, skill))))
+        .map(({ worker }) => worker);
+      const phases = commonPhases ?? Array.from(new Set(qualified.flatMap(w => w.AvailableSlots)));
+      capacity = phases.reduce((best, phase) => Math.max(best, qualified
+        .filter(w => w.AvailableSlots.includes(phase))
+        .reduce((sum, w) => sum + (w.MaxLoadPerPhase ?? 1), 0)), 0);
+    }
+
+    return {
+      taskIds: taskIds.sort(),
+      rules: clusterRules.map(rule => ({ id: rule.id, name: rule.name })),
+      sharedTasks,
+      commonPhases,
+      phaseLimits,
+      demand: tasks.length,
+      capacity
+    };
+  });
+}
+
+export function describeCoRunProblems(cluster: CoRunCluster): CoRunProblem[] {
+  const problems: CoRunProblem[] = [];
+  const label = cluster.taskIds.join(', ');
+
+  if (cluster.commonPhases !== null && cluster.commonPhases.length === 0) {
+    const subject = cluster.rules.length === 1 ? `Co-run rule "${cluster.rules[0].name}"` : `Co-run cluster ${label}`;
+    const limits = cluster.phaseLimits.map(({ taskId, phases }) => `${taskId} (phases: ${formatPhaseSet(phases)})`).join(', ');
+    problems.push({
+      type: 'error',
+      message: `${subject} has no phase common to all of its tasks: ${limits}`
+    });
+  }
+
+  if (cluster.capacity !== null && cluster.demand > cluster.capacity) {
+    problems.push({
+      type: 'error',
+      message: `Co-run cluster ${label} needs ${cluster.demand} worker slots in one phase, but qualified workers offer at most ${cluster.capacity}`
+    });
+  }
+
+  cluster.sharedTasks.forEach(({ taskId, ruleNames }) => {
+    problems.push({
+      type: 'warning',
+      message: `Task ${taskId} is in co-run rules ${ruleNames.map(name => `"${name}"`).join(', ')}, which merges them into one cluster of ${cluster.taskIds.length} tasks`
+    });
+  });
+
+  return problems;
+}
+
+export interface LoadLimitAnalysis {
+  limit: number;
+  // Group members whose own MaxLoadPerPhase the rule cuts down, and those it never reaches
+  workersAbove: { id: string; maxLoad: number }[];
+  workersBelow: { id: string; maxLoad: number }[];
+  // Slots the group offers in each phase with the rule applied, and without it
+  phaseCapacity: { phase: number; capacity: number; uncapped: number }[];
+  // Phases the rule makes infeasible for tasks that can only run in that phase
+  shortPhases: { phase: number; taskIds: string[]; demand: number; capacity: number; uncapped: number }[];
+}
+
+const workerLoad = (worker: Worker) => worker.MaxLoadPerPhase ?? 1;
+
+// Reconcile a load-limit rule with the individual limits of the workers in its group, then check
+// the capped capacity against tasks pinned to a single phase that those workers can do.
+export function analyzeLoadLimit(rule: LoadLimitRule, rules: Rule[], data: EntityState, skillIndex: SkillIndex): LoadLimitAnalysis | null {
+  const members = data.workers.filter(w => w.WorkerGroup === rule.workerGroup);
+  if (members.length === 0) return null;
+
+  const limit = rule.maxSlotsPerPhase;
+  const isMember = (worker: Worker) => worker.WorkerGroup === rule.workerGroup;
+  const cappedLoad = (worker: Worker) => isMember(worker) ? Math.min(workerLoad(worker), limit) : workerLoad(worker);
+
+  const withLimits = members.filter(w => w.MaxLoadPerPhase !== null);
+  const workersAbove = withLimits.filter(w => w.MaxLoadPerPhase! > limit).map(w => ({ id: w.WorkerID, maxLoad: w.MaxLoadPerPhase! }));
+  const workersBelow = withLimits.filter(w => w.MaxLoadPerPhase! < limit).map(w => ({ id: w.WorkerID, maxLoad: w.MaxLoadPerPhase! }));
+
+  const allPhases = Array.from(new Set(members.flatMap(w => w.AvailableSlots))).sort((a, b) => a - b);
+  const phaseCapacity = allPhases.map(phase => {
+    const available = members.filter(w => w.AvailableSlots.includes(phase));
+    return {
+      phase,
+      capacity: available.reduce((sum, w) => sum + cappedLoad(w), 0),
+      uncapped: available.reduce((sum, w) => sum + workerLoad(w), 0)
+    };
+  });
+
+  const workerSkills = data.workers.map(w => ({ worker: w, skills: expandSkills(skillIndex, w.Skills) }));
+  const qualifiedFor = (task: Task) => workerSkills
+    .filter(({ skills }) => task.RequiredSkills.every(skill => coversSkill(skillIndex, skills, skill)))
+    .map(({ worker }) => worker);
+
+  // Only tasks pinned to one phase have a demand that can be placed exactly; spreading the rest
+  // across phases is a scheduling question for the capacity check.
+  const pinned = new Map<number, { task: Task; workers: Worker[] }[]>();
+  data.tasks.forEach(task => {
+    const phases = taskPhases(task.TaskID, rules, data);
+    if (!phases || phases.length !== 1) return;
+    const workers = qualifiedFor(task);
+    if (!workers.some(isMember)) return;
+    pinned.set(phases[0], [...(pinned.get(phases[0]) || []), { task, workers }]);
+  });
+
+  const shortPhases: LoadLimitAnalysis['shortPhases'] = [];
+  Array.from(pinned.entries()).sort(([a], [b]) => a - b).forEach(([phase, tasks]) => {
+    const workers = Array.from(new Set(tasks.flatMap(t => t.workers))).filter(w => w.AvailableSlots.includes(phase));
+    const capacity = workers.reduce((sum, w) => sum + cappedLoad(w), 0);
+    const uncapped = workers.reduce((sum, w) => sum + workerLoad(w), 0);
+    const demand = tasks.length;
+    // Phases that are short even without the rule aren't the rule's doing
+    if (demand > capacity && demand <= uncapped) {
+      shortPhases.push({ phase, taskIds: tasks.map(t => t.task.TaskID), demand, capacity, uncapped });
+    }
+  });
+
+  return { limit, workersAbove, workersBelow, phaseCapacity, shortPhases };
+}
+
+export interface CapacityAnalysis {
+  // Worker-phase slots the tasks need in total, and the most that can be staffed
+  demand: number;
+  assigned: number;
+  // Phases whose qualified capacity is used up, with the skills of the tasks left waiting
+  bottleneckPhases: { phase: number; capacity: number; skills: string[] }[];
+  shortTasks: { taskId: string; demand: number; assigned: number }[];
+}
+
+interface FlowEdge {
+  to: number;
+  capacity: number;
+  reverse: number;
+}
+
+// Max-flow (Dinic) over a small layered graph; node 0 is the source and node 1 the sink
+class FlowNetwork {
+  private edges: FlowEdge[][] = [[], []];
+  private level: number[] = [];
+  private next: number[] = [];
+
+  addNode(): number {
+    this.edges.push([]);
+    return this.edges.length - 1;
+  }
+
+  addEdge(from: number, to: number, capacity: number): FlowEdge {
+    const edge = { to, capacity, reverse: this.edges[to].length };
+    this.edges[from].push(edge);
+    this.edges[to].push({ to: from, capacity: 0, reverse: this.edges[from].length - 1 });
+    return edge;
+  }
+
+  maxFlow(): number {
+    let flow = 0;
+    while (this.buildLevels()) {
+      this.next = this.edges.map(() => 0);
+      let pushed: number;
+      while ((pushed = this.push(0, Infinity)) > 0) flow += pushed;
+    }
+    return flow;
+  }
+
+  // Nodes still reachable from the source in the residual graph: the source side of the min cut
+  reachable(): boolean[] {
+    this.buildLevels();
+    return this.level.map(level => level >= 0);
+  }
+
+  private buildLevels(): boolean {
+    this.level = this.edges.map(() => -1);
+    this.level[0] = 0;
+    const queue = [0];
+    for (let i = 0; i < queue.length; i++) {
+      this.edges[queue[i]].forEach(edge => {
+        if (edge.capacity > 0 && this.level[edge.to] < 0) {
+          this.level[edge.to] = this.level[queue[i]] + 1;
+          queue.push(edge.to);
+        }
+      });
+    }
+    return this.level[1] >= 0;
+  }
+
+  private push(node: number, limit: number): number {
+    if (node === 1) return limit;
+    for (; this.next[node] < this.edges[node].length; this.next[node]++) {
+      const edge = this.edges[node][this.next[node]];
+      if (edge.capacity <= 0 || this.level[edge.to] !== this.level[node] + 1) continue;
+      const pushed = this.push(edge.to, Math.min(limit, edge.capacity));
+      if (pushed > 0) {
+        edge.capacity -= pushed;
+        this.edges[edge.to][edge.reverse].capacity += pushed;
+        return pushed;
+      }
+    }
+    return 0;
+  }
+}
+
+// Match task demand to qualified worker capacity phase by phase. A task runs for Duration phases
+// (1 if unset) among the phases it may run in, as the duration check reads it: each of those
+// phases counts once however many workers are on it, so extra concurrent workers can't shorten
+// it. A worker gives MaxLoadPerPhase slots per phase, further capped by any load-limit rule on
+// its group.
+export function analyzeCapacity(rules: Rule[], data: EntityState, skillIndex: SkillIndex, maxPhase: number | null): CapacityAnalysis {
+  const phaseUniverse = maxPhase
+    ? Array.from({ length: maxPhase }, (_, i) => i + 1)
+    : Array.from(new Set(data.workers.flatMap(w => w.AvailableSlots))).sort((a, b) => a - b);
+
+  const groupLimits = new Map<string, number>();
+  (rules.filter(r => r.type === 'loadLimit' && r.enabled) as LoadLimitRule[]).forEach(rule => {
+    groupLimits.set(rule.workerGroup, Math.min(groupLimits.get(rule.workerGroup) ?? Infinity, rule.maxSlotsPerPhase));
+  });
+
+  const network = new FlowNetwork();
+
+  // Worker-phase nodes drain into the sink at the worker's per-phase load
+  const workerPhaseNodes = new Map<string, { node: number; phase: number; load: number }>();
+  data.workers.forEach(worker => {
+    const load = Math.min(workerLoad(worker), groupLimits.get(worker.WorkerGroup) ?? Infinity);
+    worker.AvailableSlots.forEach(phase => {
+      const node = network.addNode();
+      network.addEdge(node, 1, load);
+      workerPhaseNodes.set(`${worker.WorkerID}:${phase}`, { node, phase, load });
+    });
+  });
+
+  const workerSkills = data.workers.map(w => ({ worker: w, skills: expandSkills(skillIndex, w.Skills) }));
+  const taskNodes: { task: Task; node: number; demand: number; source: FlowEdge; phases: number[] }[] = [];
+
+  data.tasks.forEach(task => {
+    const qualified = workerSkills
+      .filter(({ skills }) => task.RequiredSkills.every(skill => coversSkill(skillIndex, skills, skill)))
+      .map(({ worker }) => worker);
+    // Tasks nobody can do are reported by the skill check; they'd only add noise here
+    if (qualified.length === 0) return;
+
+    const phases = taskPhases(task.TaskID, rules, data) ?? phaseUniverse;
+    const demand = task.Duration ?? 1;
+    const node = network.addNode();
+    const source = network.addEdge(0, node, demand);
+    taskNodes.push({ task, node, demand, source, phases });
+
+    phases.forEach(phase => {
+      const workers = qualified.filter(w => w.AvailableSlots.includes(phase));
+      if (workers.length === 0) return;
+      const taskPhase = network.addNode();
+      network.addEdge(node, taskPhase, 1);
+      workers.forEach(worker => network.addEdge(taskPhase, workerPhaseNodes.get(`${worker.WorkerID}:${phase}`)!.node, 1));
+    });
+  });
+
+  const assigned = network.maxFlow();
+  const demand = taskNodes.reduce((sum, t) => sum + t.demand, 0);
+
+  const shortTasks = taskNodes
+    .map(({ task, demand, source }) => ({ taskId: task.TaskID, demand, assigned: demand - source.capacity }))
+    .filter(t => t.assigned < t.demand);
+
+  // Worker-phase nodes on the source side of the min cut are the saturated capacity
+  const bottleneckPhases: CapacityAnalysis['bottleneckPhases'] = [];
+  if (assigned < demand) {
+    const reachable = network.reachable();
+    const shortIds = new Set(shortTasks.map(t => t.taskId));
+    const capacityByPhase = new Map<number, number>();
+    workerPhaseNodes.forEach(({ node, phase, load }) => {
+      if (reachable[node]) capacityByPhase.set(phase, (capacityByPhase.get(phase) || 0) + load);
+    });
+    Array.from(capacityByPhase.entries()).sort(([a], [b]) => a - b).forEach(([phase, capacity]) => {
+      const skills = taskNodes
+        .filter(t => shortIds.has(t.task.TaskID) && t.phases.includes(phase))
+        .flatMap(t => t.task.RequiredSkills);
+      bottleneckPhases.push({ phase, capacity, skills: normalizeSkillList(skillIndex, skills) });
+    });
+  }
+
+  return { demand, assigned, bottleneckPhases, shortTasks };
+}
+
+export interface DurationWindow {
+  phases: number[];
+  workerId: string | null;
+}
+
+// Longest runs of consecutive phases in a sorted phase list
+function consecutiveRuns(phases: number[]): number[][] {
+  const runs: number[][] = [];
+  phases.forEach(phase => {
+    const run = runs[runs.length - 1];
+    if (run && run[run.length - 1] === phase - 1) run.push(phase);
+    else runs.push([phase]);
+  });
+  return runs;
+}
+
+// A task runs for Duration consecutive phases, all within the phases it may run in, and needs one
+// qualified worker available for the whole stretch. Returns the first window that works, or the
+// longest partial one (window null) so the error can say how close it came. Null if nobody is
+// qualified at all; the skill check reports that.
+export function findDurationWindow(task: Task, rules: Rule[], data: EntityState, skillIndex: SkillIndex, maxPhase: number | null): { window: DurationWindow | null; best: DurationWindow } | null {
+  const qualified = data.workers.filter(worker => {
+    const skills = expandSkills(skillIndex, worker.Skills);
+    return task.RequiredSkills.every(skill => coversSkill(skillIndex, skills, skill));
+  });
+  if (qualified.length === 0) return null;
+
+  const allowed = taskPhases(task.TaskID, rules, data);
+  const duration = task.Duration ?? 1;
+  let best: DurationWindow = { phases: [], workerId: null };
+
+  for (const worker of qualified) {
+    const usable = worker.AvailableSlots
+      .filter(phase => (allowed ? allowed.includes(phase) : true) && (!maxPhase || phase <= maxPhase))
+      .sort((a, b) => a - b);
+    for (const run of consecutiveRuns(usable)) {
+      if (run.length >= duration) {
+        const phases = run.slice(0, duration);
+        return { window: { phases, workerId: worker.WorkerID }, best: { phases, workerId: worker.WorkerID } };
+      }
+      if (run.length > best.phases.length) best = { phases: run, workerId: worker.WorkerID };
+    }
+  }
+
+  return { window: null, best };
+}
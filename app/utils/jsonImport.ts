@@ -0,0 +1,111 @@
+// app/utils/jsonImport.ts
+import { DataRow } from './validations';
+import { WorkbookSheet, detectEntityType } from './workbook';
+import { EntityType } from './entities';
+
+const JSON_EXTENSIONS = ['.json'];
+const NDJSON_EXTENSIONS = ['.ndjson', '.jsonl'];
+const ENTITY_KEYS: EntityType[] = ['clients', 'workers', 'tasks'];
+
+export function isJsonFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return [...JSON_EXTENSIONS, ...NDJSON_EXTENSIONS].some(ext => name.endsWith(ext));
+}
+
+// Flatten a JSON value into the string/number cell format CSV uploads produce:
+// numeric arrays become "[1,2,3]" (AvailableSlots, PreferredPhases), other arrays become
+// comma-separated lists (Skills, RequestedTaskIDs) and objects become JSON text (AttributesJSON).
+function toCellValue(value: unknown): any {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) {
+    if (value.every(v => typeof v === 'number')) {
+      return `[${value.join(',')}]`;
+    }
+    return value.map(v => (typeof v === 'object' && v !== null ? JSON.stringify(v) : String(v))).join(',');
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return value;
+}
+
+export function toDataRow(record: Record<string, unknown>): DataRow {
+  const row: DataRow = {};
+  Object.entries(record).forEach(([key, value]) => {
+    row[key] = toCellValue(value);
+  });
+  return row;
+}
+
+// Headers are the union of keys across records, in first-seen order, since JSON records
+// routinely omit empty fields
+function collectHeaders(records: Record<string, unknown>[]): string[] {
+  const headers = new Set<string>();
+  records.forEach(record => Object.keys(record).forEach(key => headers.add(key)));
+  return Array.from(headers);
+}
+
+function toEntitySet(records: unknown[], name: string, entityType?: EntityType): WorkbookSheet {
+  const objects = records.filter(
+    (r): r is Record<string, unknown> => typeof r === 'object' && r !== null && !Array.isArray(r)
+  );
+  const headers = collectHeaders(objects);
+  return {
+    sheetName: name,
+    entityType: entityType || detectEntityType(headers, name),
+    headers,
+    rows: objects.map(toDataRow)
+  };
+}
+
+function parseNdjson(text: string): unknown[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map((line, index) => {
+      try {
+        return JSON.parse(line);
+      } catch (e) {
+        throw new Error(`Invalid JSON on line ${index + 1}`);
+      }
+    });
+}
+
+// Accepts a JSON array of records, an object keyed by entity ({"clients": [...], "workers": [...]}),
+// an object wrapping a single array, or NDJSON with one record per line.
+export function parseJsonEntities(text: string, fileName: string): WorkbookSheet[] {
+  const isNdjson = NDJSON_EXTENSIONS.some(ext => fileName.toLowerCase().endsWith(ext));
+  if (isNdjson) {
+    return [toEntitySet(parseNdjson(text), fileName)];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    // Some tools write NDJSON with a plain .json extension
+    return [toEntitySet(parseNdjson(text), fileName)];
+  }
+
+  if (Array.isArray(parsed)) {
+    return [toEntitySet(parsed, fileName)];
+  }
+
+  if (typeof parsed === 'object' && parsed !== null) {
+    const obj = parsed as Record<string, unknown>;
+    const keyedSets = ENTITY_KEYS
+      .filter(key => Array.isArray(obj[key]))
+      .map(key => toEntitySet(obj[key] as unknown[], key, key));
+    if (keyedSets.length > 0) {
+      return keyedSets;
+    }
+
+    const arrays = Object.entries(obj).filter(([, value]) => Array.isArray(value));
+    if (arrays.length === 1) {
+      return [toEntitySet(arrays[0][1] as unknown[], arrays[0][0])];
+    }
+  }
+
+  throw new Error('JSON file does not contain an array of records');
+}
@@ -0,0 +1,129 @@
+// app/utils/mappingProfiles.ts
+import { ColumnMatch, normalizeHeader } from './columnMapping';
+import { EntityType } from './entities';
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  entityType: EntityType;
+  signature: string;
+  headers: string[];
+  mapping: Record<string, string | null>;
+  updatedAt: string;
+}
+
+interface ProfilesFile {
+  version: string;
+  profiles: MappingProfile[];
+}
+
+const STORAGE_KEY = 'dataAlchemist.mappingProfiles';
+const PROFILES_FILE_VERSION = '1.0.0';
+
+// FNV-1a over the normalised, sorted header list, so column order and cosmetic
+// differences like "Emp ID" vs "emp_id" produce the same signature
+export function getHeaderSignature(headers: string[]): string {
+  const key = headers.map(normalizeHeader).sort().join('|');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export function loadProfiles(): MappingProfile[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Failed to load mapping profiles:', error);
+    return [];
+  }
+}
+
+export function saveProfiles(profiles: MappingProfile[]) {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+}
+
+export function findProfile(profiles: MappingProfile[], headers: string[], entityType: EntityType): MappingProfile | undefined {
+  const signature = getHeaderSignature(headers);
+  return profiles.find(p => p.signature === signature && p.entityType === entityType);
+}
+
+// Saving under an existing signature replaces that profile, so there is only ever one per header layout
+export function upsertProfile(
+  profiles: MappingProfile[],
+  name: string,
+  entityType: EntityType,
+  matches: ColumnMatch[]
+): MappingProfile[] {
+  const headers = matches.map(m => m.header);
+  const signature = getHeaderSignature(headers);
+  const existing = profiles.find(p => p.signature === signature && p.entityType === entityType);
+
+  const profile: MappingProfile = {
+    id: existing?.id || `profile_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    entityType,
+    signature,
+    headers,
+    mapping: Object.fromEntries(matches.map(m => [m.header, m.target])),
+    updatedAt: new Date().toISOString()
+  };
+
+  return existing
+    ? profiles.map(p => (p.id === existing.id ? profile : p))
+    : [...profiles, profile];
+}
+
+// Lookup is by normalised header, since the signature already treats "emp_id" and "Emp ID" as equal
+export function profileToMatches(profile: MappingProfile, headers: string[]): ColumnMatch[] {
+  const mapping = new Map(
+    Object.entries(profile.mapping).map(([header, target]) => [normalizeHeader(header), target])
+  );
+
+  return headers.map(header => {
+    const target = mapping.get(normalizeHeader(header)) || null;
+    return {
+      header,
+      target,
+      confidence: target ? 1 : 0,
+      source: target ? 'profile' : 'none'
+    };
+  });
+}
+
+export function serializeProfiles(profiles: MappingProfile[]): string {
+  const file: ProfilesFile = { version: PROFILES_FILE_VERSION, profiles };
+  return JSON.stringify(file, null, 2);
+}
+
+export function parseProfiles(text: string): MappingProfile[] {
+  const parsed = JSON.parse(text);
+  const profiles: any[] = Array.isArray(parsed) ? parsed : parsed?.profiles;
+  if (!Array.isArray(profiles)) {
+    throw new Error('File does not contain mapping profiles');
+  }
+
+  return profiles
+    .filter(p => p && p.name && p.entityType && Array.isArray(p.headers) && p.mapping)
+    .map(p => ({
+      id: p.id || `profile_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: p.name,
+      entityType: p.entityType,
+      signature: getHeaderSignature(p.headers),
+      headers: p.headers,
+      mapping: p.mapping,
+      updatedAt: p.updatedAt || new Date().toISOString()
+    }));
+}
+
+// Imported profiles win over local ones with the same signature
+export function mergeProfiles(existing: MappingProfile[], imported: MappingProfile[]): MappingProfile[] {
+  const key = (p: MappingProfile) => `${p.entityType}:${p.signature}`;
+  const importedKeys = new Set(imported.map(key));
+  return [...existing.filter(p => !importedKeys.has(key(p))), ...imported];
+}
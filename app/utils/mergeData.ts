@@ -0,0 +1,138 @@
+// app/utils/mergeData.ts
+import { DataRow } from './validations';
+import { EntityType, ID_FIELDS } from './entities';
+import { ROW_ID, getRowId, findRowIndex } from './rowIdentity';
+
+export type MergeMode = 'replace' | 'append' | 'upsert';
+
+export const MERGE_MODES: { value: MergeMode; label: string; description: string }[] = [
+  { value: 'replace', label: 'Replace', description: 'Uploaded file becomes the full dataset' },
+  { value: 'append', label: 'Append', description: 'Add every uploaded row after the existing ones' },
+  { value: 'upsert', label: 'Upsert', description: 'Update rows with matching IDs and add new ones' }
+];
+
+export interface FieldChange {
+  field: string;
+  oldValue: any;
+  newValue: any;
+}
+
+export interface RowChange {
+  key: string;
+  kind: 'added' | 'changed' | 'removed';
+  id: string;
+  before?: DataRow;
+  after?: DataRow;
+  fields: FieldChange[];
+}
+
+export interface MergeResult {
+  rows: DataRow[];
+  // Accepted changes whose row is no longer there, e.g. removed by an earlier merge
+  unmatched: RowChange[];
+}
+
+const cellText = (value: any) => (value === null || value === undefined ? '' : String(value).trim());
+
+const rowId = (type: EntityType, row: DataRow) => cellText(row[ID_FIELDS[type]]);
+
+function diffFields(before: DataRow, after: DataRow): FieldChange[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: FieldChange[] = [];
+  fields.forEach(field => {
+    // Columns missing from the upload are left alone rather than cleared
+    if (!(field in after)) return;
+    if (cellText(before[field]) !== cellText(after[field])) {
+      changes.push({ field, oldValue: before[field], newValue: after[field] });
+    }
+  });
+  return changes;
+}
+
+// Work out what an upload would do to the current rows under the chosen mode.
+// Rows are matched on ClientID/WorkerID/TaskID; rows without an ID are always treated as new.
+export function diffRows(type: EntityType, existing: DataRow[], incoming: DataRow[], mode: MergeMode): RowChange[] {
+  const changes: RowChange[] = [];
+
+  if (mode === 'append') {
+    incoming.forEach((row, index) => {
+      changes.push({ key: `added:${index}`, kind: 'added', id: rowId(type, row), after: row, fields: [] });
+    });
+    return changes;
+  }
+
+  const existingById = new Map<string, DataRow>();
+  existing.forEach(row => {
+    const id = rowId(type, row);
+    if (id && !existingById.has(id)) existingById.set(id, row);
+  });
+
+  const incomingIds = new Set<string>();
+  incoming.forEach((row, index) => {
+    const id = rowId(type, row);
+    const before = id ? existingById.get(id) : undefined;
+    if (id) incomingIds.add(id);
+
+    if (!before) {
+      changes.push({ key: `added:${index}`, kind: 'added', id, after: row, fields: [] });
+      return;
+    }
+
+    const fields = diffFields(before, row);
+    if (fields.length > 0) {
+      changes.push({ key: `changed:${index}`, kind: 'changed', id, before, after: row, fields });
+    }
+  });
+
+  if (mode === 'replace') {
+    existing.forEach((row, index) => {
+      const id = rowId(type, row);
+      if (!id || !incomingIds.has(id)) {
+        changes.push({ key: `removed:${index}`, kind: 'removed', id, before: row, fields: [] });
+      }
+    });
+  }
+
+  return changes;
+}
+
+// The row a change was computed against. Rows are found by their identity, which survives edits
+// and earlier merges, and otherwise by ClientID/WorkerID/TaskID.
+function findChangedRow(type: EntityType, rows: DataRow[], before: DataRow): number {
+  const index = findRowIndex(rows, getRowId(before));
+  if (index >= 0) return index;
+  const id = rowId(type, before);
+  return id ? rows.findIndex(row => rowId(type, row) === id) : -1;
+}
+
+// Apply only the accepted changes. Rejected changes leave the existing row exactly as it was.
+export function applyChanges(type: EntityType, existing: DataRow[], changes: RowChange[], acceptedKeys: Set<string>): MergeResult {
+  const accepted = changes.filter(change => acceptedKeys.has(change.key));
+  const merged = [...existing];
+  const removed = new Set<number>();
+  const unmatched: RowChange[] = [];
+
+  accepted.filter(c => c.kind !== 'added').forEach(change => {
+    const index = findChangedRow(type, merged, change.before!);
+    if (index < 0 || removed.has(index)) {
+      unmatched.push(change);
+    } else if (change.kind === 'removed') {
+      removed.add(index);
+    } else {
+      merged[index] = { ...merged[index], ...change.after, [ROW_ID]: getRowId(merged[index]) };
+    }
+  });
+
+  const rows = merged.filter((_, index) => !removed.has(index));
+  accepted.filter(c => c.kind === 'added').forEach(change => rows.push(change.after!));
+
+  return { rows, unmatched };
+}
+
+export function summarizeChanges(changes: RowChange[]) {
+  return {
+    added: changes.filter(c => c.kind === 'added').length,
+    changed: changes.filter(c => c.kind === 'changed').length,
+    removed: changes.filter(c => c.kind === 'removed').length
+  };
+}
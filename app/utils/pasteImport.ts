@@ -0,0 +1,57 @@
+// app/utils/pasteImport.ts
+import Papa from 'papaparse';
+import { DataRow } from './validations';
+import { EntityType } from './entities';
+import { sniffDelimiter } from './csvDetection';
+import { mapColumnsLocally } from './columnMapping';
+
+export interface PastedTable {
+  headers: string[];
+  rows: DataRow[];
+}
+
+// Spreadsheet ranges arrive tab-separated; typed-in CSV is sniffed like an uploaded file.
+// Only surrounding line breaks are stripped: a leading tab is a blank first cell.
+function splitCells(text: string): string[][] {
+  const results = Papa.parse<string[]>(text.replace(/^(\r?\n)+|(\r?\n)+$/g, ''), {
+    delimiter: sniffDelimiter(text),
+    skipEmptyLines: true
+  });
+  return results.data;
+}
+
+// A first row counts as headers when none of its cells are numeric and at least one of
+// them maps onto an expected column
+export function looksLikeHeaderRow(text: string, entityType: EntityType): boolean {
+  const [firstRow] = splitCells(text);
+  if (!firstRow || firstRow.length === 0) return false;
+  if (firstRow.some(cell => cell.trim() !== '' && !isNaN(Number(cell)))) return false;
+  return mapColumnsLocally(firstRow, entityType).some(match => match.target);
+}
+
+// Cells are typed the same way Papa's dynamicTyping types uploaded CSVs
+const typeCell = (cell: string): any => {
+  const trimmed = cell.trim();
+  if (trimmed !== '' && !isNaN(Number(trimmed))) return Number(trimmed);
+  if (trimmed === 'true' || trimmed === 'false') return trimmed === 'true';
+  return cell;
+};
+
+// Without headers, cells are laid out under the given columns in order; surplus cells are dropped
+export function parsePastedTable(text: string, hasHeaders: boolean, columns: string[]): PastedTable {
+  const cells = splitCells(text);
+  if (cells.length === 0) return { headers: [], rows: [] };
+
+  const headers = hasHeaders ? cells[0].map(h => h.trim()) : columns;
+  const body = hasHeaders ? cells.slice(1) : cells;
+
+  const rows = body.map(rowCells => {
+    const row: DataRow = {};
+    headers.forEach((header, index) => {
+      if (header) row[header] = typeCell(rowCells[index] ?? '');
+    });
+    return row;
+  });
+
+  return { headers: headers.filter(Boolean), rows };
+}
@@ -0,0 +1,128 @@
+// app/utils/phases.ts
+
+// The one place phase expressions are read and written. AvailableSlots, PreferredPhases and
+// phase-window rules all go through here so "1-3,5" means the same thing everywhere.
+
+export class PhaseParseError extends Error {}
+
+export interface PhaseParseOptions {
+  // Highest valid phase; phases above it are rejected. No limit when omitted.
+  maxPhase?: number | null;
+}
+
+const RANGE_PATTERN = /^(\d+)\s*-\s*(\d+)$/;
+const PHASE_PATTERN = /^\d+$/;
+
+// Ranges are expanded phase by phase, so a typo like "1-20000000" must not be taken literally
+export const MAX_PHASE_RANGE = 1000;
+
+function parseTerm(term: string, phases: Set<number>) {
+  const range = term.match(RANGE_PATTERN);
+  if (range) {
+    const start = parseInt(range[1]);
+    const end = parseInt(range[2]);
+    if (end < start) {
+      throw new PhaseParseError(`Invalid phase range "${term}" - end is before start`);
+    }
+    if (end - start >= MAX_PHASE_RANGE) {
+      throw new PhaseParseError(`Phase range "${term}" is too long (at most ${MAX_PHASE_RANGE} phases)`);
+    }
+    for (let phase = start; phase <= end; phase++) {
+      phases.add(phase);
+    }
+    return;
+  }
+
+  if (PHASE_PATTERN.test(term)) {
+    phases.add(parseInt(term));
+    return;
+  }
+
+  throw new PhaseParseError(`Invalid phase "${term}"`);
+}
+
+// Parse any supported phase expression into a sorted, de-duplicated list of phases:
+//   3            a single phase
+//   1-3          an inclusive range
+//   1,2,5        a list
+//   [1,2,5]      a JSON array (or bracketed expression)
+//   1-3,5,7-8    any mix of the above
+// Arrays, e.g. from JSON imports or rule objects, may hold numbers or expressions.
+export function parsePhaseSet(value: any, options: PhaseParseOptions = {}): number[] {
+  if (value === null || value === undefined) return [];
+
+  const terms: string[] = Array.isArray(value)
+    ? value.flatMap(item => String(item).split(','))
+    : String(value).trim().replace(/^\[|\]$/g, '').split(/[,;]/);
+
+  const phases = new Set<number>();
+  terms
+    .map(term => term.trim().replace(/^["']|["']$/g, ''))
+    .filter(Boolean)
+    .forEach(term => parseTerm(term, phases));
+
+  const sorted = Array.from(phases).sort((a, b) => a - b);
+
+  if (sorted.length > 0 && sorted[0] < 1) {
+    throw new PhaseParseError('Phases start at 1');
+  }
+  const { maxPhase } = options;
+  if (maxPhase && sorted.length > 0 && sorted[sorted.length - 1] > maxPhase) {
+    throw new PhaseParseError(`Phase ${sorted[sorted.length - 1]} is beyond the last phase (${maxPhase})`);
+  }
+
+  return sorted;
+}
+
+// Like parsePhaseSet, but returns null instead of throwing
+export function tryParsePhaseSet(value: any, options: PhaseParseOptions = {}): number[] | null {
+  try {
+    return parsePhaseSet(value, options);
+  } catch (e) {
+    if (e instanceof PhaseParseError) return null;
+    throw e;
+  }
+}
+
+// Compact form with consecutive phases collapsed into ranges, e.g. [1,2,3,5,7,8] -> "1-3,5,7-8"
+export function formatPhaseSet(phases: number[]): string {
+  const sorted = Array.from(new Set(phases)).sort((a, b) => a - b);
+  const parts: string[] = [];
+
+  let start = sorted[0];
+  let previous = sorted[0];
+  for (let i = 1; i <= sorted.length; i++) {
+    const phase = sorted[i];
+    if (phase === previous + 1) {
+      previous = phase;
+      continue;
+    }
+    parts.push(start === previous ? `${start}` : `${start}-${previous}`);
+    start = phase;
+    previous = phase;
+  }
+
+  return sorted.length > 0 ? parts.join(',') : '';
+}
+
+// Phases listed in `phases` that are beyond maxPhase
+export function phasesBeyond(phases: number[], maxPhase: number | null | undefined): number[] {
+  return maxPhase ? phases.filter(phase => phase > maxPhase) : [];
+}
+
+const MAX_PHASE_STORAGE_KEY = 'dataAlchemist.maxPhase';
+
+export function loadMaxPhase(): number | null {
+  if (typeof window === 'undefined') return null;
+  const stored = parseInt(window.localStorage.getItem(MAX_PHASE_STORAGE_KEY) || '');
+  return stored > 0 ? stored : null;
+}
+
+export function saveMaxPhase(maxPhase: number | null) {
+  if (typeof window === 'undefined') return;
+  if (maxPhase) {
+    window.localStorage.setItem(MAX_PHASE_STORAGE_KEY, String(maxPhase));
+  } else {
+    window.localStorage.removeItem(MAX_PHASE_STORAGE_KEY);
+  }
+}
@@ -0,0 +1,142 @@
+// app/utils/projectBundle.ts
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import { DataRow } from './validations';
+import { EntityType } from './entities';
+import { detectEntityType } from './workbook';
+import { Rule, PrioritizationWeights, DEFAULT_WEIGHTS, generateRuleId } from './rules';
+import { ValidationPolicy, parseValidationPolicy, relinkRuleSuppressions } from './suppressions';
+
+export interface ProjectBundle {
+  data: Partial<Record<EntityType, DataRow[]>>;
+  rules: Rule[] | null;
+  weights: PrioritizationWeights | null;
+  // Left undefined when rules.json predates the setting
+  maxPhase?: number | null;
+  validationPolicy?: ValidationPolicy;
+  skippedFiles: string[];
+}
+
+export interface BundleEntry {
+  name: string;
+  text: string;
+}
+
+// Matches the names handleExport writes: clients_cleaned.csv, workers_cleaned.csv, tasks_cleaned.csv
+const EXPORT_FILE_PATTERN = /^(clients|workers|tasks)(_cleaned)?\.csv$/i;
+
+export function isArchiveFile(file: File): boolean {
+  return /\.zip$/i.test(file.name);
+}
+
+const baseName = (path: string) => path.split(/[\\/]/).pop() || path;
+
+// SheetJS ships a zip reader as XLSX.CFB, so archives need no extra dependency
+function readArchive(buffer: ArrayBuffer): BundleEntry[] {
+  const archive = XLSX.CFB.read(new Uint8Array(buffer), { type: 'array' });
+  const decoder = new TextDecoder('utf-8');
+  const entries: BundleEntry[] = [];
+
+  archive.FileIndex.forEach((entry: any, index: number) => {
+    // type 2 is a regular file; directories and the root entry carry no content
+    if (entry.type !== 2 || !entry.content) return;
+    const name = baseName(archive.FullPaths[index]);
+    if (!/\.(csv|json)$/i.test(name)) return;
+    entries.push({ name, text: decoder.decode(entry.content as Uint8Array) });
+  });
+
+  return entries;
+}
+
+async function readEntries(files: File[]): Promise<BundleEntry[]> {
+  const entries: BundleEntry[] = [];
+  for (const file of files) {
+    if (isArchiveFile(file)) {
+      entries.push(...readArchive(await file.arrayBuffer()));
+    } else {
+      entries.push({ name: file.name, text: await file.text() });
+    }
+  }
+  return entries;
+}
+
+function parseEntityCsv(entry: BundleEntry): { type: EntityType | null; rows: DataRow[] } {
+  const results = Papa.parse<DataRow>(entry.text.replace(/^\uFEFF/, ''), {
+    header: true,
+    dynamicTyping: true,
+    skipEmptyLines: true
+  });
+
+  const match = entry.name.match(EXPORT_FILE_PATTERN);
+  const type = match
+    ? (match[1].toLowerCase() as EntityType)
+    : detectEntityType(results.meta.fields || [], entry.name);
+
+  return { type, rows: results.data };
+}
+
+// Export strips ids and creation dates, so every rule comes back as a fresh rule.
+// Only enabled rules are exported, hence the default.
+export function restoreRules(exported: any[]): Rule[] {
+  return exported
+    .filter(rule => rule && typeof rule === 'object' && typeof rule.type === 'string')
+    .map(rule => ({
+      ...rule,
+      enabled: rule.enabled ?? true,
+      id: generateRuleId(),
+      createdAt: new Date()
+    }) as Rule);
+}
+
+export function restoreWeights(exported: any): PrioritizationWeights {
+  return {
+    ...DEFAULT_WEIGHTS,
+    ...exported,
+    customWeights: { ...DEFAULT_WEIGHTS.customWeights, ...(exported?.customWeights || {}) }
+  };
+}
+
+// Reads the files written by the export (or a zip of them) back into a project.
+export async function readProjectBundle(files: File[]): Promise<ProjectBundle> {
+  return parseProjectBundle(await readEntries(files));
+}
+
+// Builds a project from already-read files, e.g. a directory read from disk by the CLI.
+// Anything that isn't one of the three entity CSVs or rules.json is reported as skipped.
+export function parseProjectBundle(entries: BundleEntry[]): ProjectBundle {
+  const bundle: ProjectBundle = { data: {}, rules: null, weights: null, skippedFiles: [] };
+
+  for (const entry of entries) {
+    if (/\.json$/i.test(entry.name)) {
+      let config: any;
+      try {
+        config = JSON.parse(entry.text);
+      } catch {
+        throw new Error(`${entry.name} is not valid JSON`);
+      }
+      if (!config || !Array.isArray(config.rules)) {
+        bundle.skippedFiles.push(entry.name);
+        continue;
+      }
+      bundle.rules = restoreRules(config.rules);
+      if (config.prioritization) bundle.weights = restoreWeights(config.prioritization);
+      if (config.settings && 'maxPhase' in config.settings) {
+        const maxPhase = parseInt(config.settings.maxPhase);
+        bundle.maxPhase = maxPhase > 0 ? maxPhase : null;
+      }
+      if (config.metadata?.validationPolicy) {
+        bundle.validationPolicy = relinkRuleSuppressions(parseValidationPolicy(config.metadata.validationPolicy), bundle.rules);
+      }
+      continue;
+    }
+
+    const { type, rows } = parseEntityCsv(entry);
+    if (!type || bundle.data[type]) {
+      bundle.skippedFiles.push(entry.name);
+      continue;
+    }
+    bundle.data[type] = rows;
+  }
+
+  return bundle;
+}
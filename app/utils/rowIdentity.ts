@@ -0,0 +1,21 @@
+// app/utils/rowIdentity.ts
+import { DataRow } from './validations';
+
+// Every loaded row carries an internal identity so errors, fixes and search hits keep pointing at
+// the same record when rows are reordered, inserted or deleted. It lives under a symbol key:
+// Object.keys, JSON and CSV export never see it, while object spread (how rows are edited) keeps it.
+export const ROW_ID = Symbol('rowId');
+
+let nextRowId = 0;
+
+export const getRowId = (row: DataRow | undefined): string | undefined => row?.[ROW_ID];
+
+// Give rows that don't have an identity yet a fresh one; rows that already have one are kept as-is
+export function withRowIds(rows: DataRow[]): DataRow[] {
+  return rows.map(row => (row[ROW_ID] ? row : { ...row, [ROW_ID]: `row-${++nextRowId}` }));
+}
+
+// Current position of a row, or -1 if it's gone
+export function findRowIndex(rows: DataRow[], rowId: string | undefined): number {
+  return rowId ? rows.findIndex(row => row[ROW_ID] === rowId) : -1;
+}
@@ -0,0 +1,218 @@
+// app/utils/schema.ts
+import type { EntityType } from './entities';
+
+export type ColumnType = 'id' | 'text' | 'integer' | 'textList' | 'phaseList' | 'json';
+
+export interface ColumnSchema {
+  name: string;
+  type: ColumnType;
+  // A blank value is an error. ID columns are always required and reported by the duplicate-ID check.
+  required?: boolean;
+  // Inclusive bounds for integer columns. Phase lists are bounded by the project's max phase instead.
+  min?: number;
+  max?: number;
+  // Allowed values for text columns, compared case-insensitively
+  enum?: string[];
+  // Expected ID format; values that don't match are reported as warnings
+  pattern?: RegExp;
+  patternHint?: string;
+  // Values are skill names, matched through the skill taxonomy
+  skills?: boolean;
+  // Alternative header spellings for the column mapper, already normalised
+  synonyms?: string[];
+  // What the column means, used as field context in AI prompts and as the grid header tooltip
+  description: string;
+}
+
+// One schema per entity, in grid/export column order. Adding a column here adds it to
+// parsing, validation, column mapping, the AI prompts and the data grid.
+export const ENTITY_SCHEMAS: Record<EntityType, ColumnSchema[]> = {
+  clients: [
+    {
+      name: 'ClientID',
+      type: 'id',
+      pattern: /^C\d+$/,
+      patternHint: 'C1, C2, ...',
+      synonyms: ['id', 'client', 'clientno', 'clientnumber', 'clientcode', 'customerid', 'customer', 'custid', 'accountid'],
+      description: 'Unique client identifier'
+    },
+    {
+      name: 'ClientName',
+      type: 'text',
+      synonyms: ['name', 'client', 'customername', 'customer', 'company', 'companyname', 'accountname', 'organisation', 'organization'],
+      description: 'Display name of the client'
+    },
+    {
+      name: 'PriorityLevel',
+      type: 'integer',
+      required: true,
+      min: 1,
+      max: 5,
+      synonyms: ['priority', 'prio', 'importance', 'level', 'rank'],
+      description: 'Client priority, 5 is the highest'
+    },
+    {
+      name: 'RequestedTaskIDs',
+      type: 'textList',
+      synonyms: ['requestedtasks', 'tasks', 'taskids', 'tasklist', 'requests', 'requested'],
+      description: 'TaskIDs the client wants done, e.g. "T1,T2"'
+    },
+    {
+      name: 'GroupTag',
+      type: 'text',
+      synonyms: ['group', 'tag', 'segment', 'tier', 'clientgroup', 'category'],
+      description: 'Client group referenced by slot-restriction rules'
+    },
+    {
+      name: 'AttributesJSON',
+      type: 'json',
+      synonyms: ['attributes', 'attrs', 'metadata', 'meta', 'json', 'properties', 'extra'],
+      description: 'Free-form client metadata'
+    }
+  ],
+  workers: [
+    {
+      name: 'WorkerID',
+      type: 'id',
+      pattern: /^W\d+$/,
+      patternHint: 'W1, W2, ...',
+      synonyms: ['id', 'worker', 'workerno', 'employeeid', 'empid', 'employee', 'staffid', 'resourceid'],
+      description: 'Unique worker identifier'
+    },
+    {
+      name: 'WorkerName',
+      type: 'text',
+      synonyms: ['name', 'worker', 'employeename', 'empname', 'employee', 'fullname', 'staffname', 'resourcename'],
+      description: 'Display name of the worker'
+    },
+    {
+      name: 'Skills',
+      type: 'textList',
+      skills: true,
+      synonyms: ['skill', 'skillset', 'skillsets', 'competencies', 'expertise', 'capabilities'],
+      description: 'Skills the worker has, e.g. "Python,SQL"'
+    },
+    {
+      name: 'AvailableSlots',
+      type: 'phaseList',
+      required: true,
+      synonyms: ['slots', 'availability', 'available', 'availablephases', 'phases', 'freeslots'],
+      description: 'Phases the worker is available in'
+    },
+    {
+      name: 'MaxLoadPerPhase',
+      type: 'integer',
+      required: true,
+      min: 1,
+      synonyms: ['maxload', 'load', 'capacity', 'maxtasksperphase', 'loadperphase', 'maxperphase'],
+      description: 'Most task slots the worker can take in a single phase'
+    },
+    {
+      name: 'WorkerGroup',
+      type: 'text',
+      synonyms: ['group', 'team', 'department', 'dept', 'unit'],
+      description: 'Worker group referenced by load-limit and slot-restriction rules'
+    },
+    {
+      name: 'QualificationLevel',
+      type: 'integer',
+      synonyms: ['qualification', 'level', 'seniority', 'grade', 'experience'],
+      description: 'Worker seniority, higher is more qualified'
+    }
+  ],
+  tasks: [
+    {
+      name: 'TaskID',
+      type: 'id',
+      pattern: /^T\d+$/,
+      patternHint: 'T1, T2, ...',
+      synonyms: ['id', 'task', 'taskno', 'tasknumber', 'taskcode', 'jobid'],
+      description: 'Unique task identifier'
+    },
+    {
+      name: 'TaskName',
+      type: 'text',
+      synonyms: ['name', 'task', 'title', 'tasktitle', 'description', 'jobname'],
+      description: 'Display name of the task'
+    },
+    {
+      name: 'Category',
+      type: 'text',
+      synonyms: ['type', 'tasktype', 'kind', 'taskcategory'],
+      description: 'Task category'
+    },
+    {
+      name: 'Duration',
+      type: 'integer',
+      required: true,
+      min: 1,
+      synonyms: ['length', 'phases', 'durationphases', 'numphases', 'span'],
+      description: 'Number of phases the task runs for'
+    },
+    {
+      name: 'RequiredSkills',
+      type: 'textList',
+      skills: true,
+      synonyms: ['skills', 'requiredskill', 'skillsrequired', 'needs', 'requirements'],
+      description: 'Skills a worker needs to take the task, e.g. "Python,SQL"'
+    },
+    {
+      name: 'PreferredPhases',
+      type: 'phaseList',
+      synonyms: ['phases', 'preferredphase', 'phasewindow', 'window', 'preferred'],
+      description: 'Phases the task may run in'
+    },
+    {
+      name: 'MaxConcurrent',
+      type: 'integer',
+      required: true,
+      min: 1,
+      synonyms: ['concurrency', 'maxparallel', 'parallel', 'concurrent', 'maxworkers'],
+      description: 'Most workers that can be on the task at the same time'
+    }
+  ]
+};
+
+export const getSchema = (type: EntityType): ColumnSchema[] => ENTITY_SCHEMAS[type];
+
+export const getColumnNames = (type: EntityType): string[] => ENTITY_SCHEMAS[type].map(column => column.name);
+
+export const getColumnSchema = (type: EntityType, name: string): ColumnSchema | undefined =>
+  ENTITY_SCHEMAS[type].find(column => column.name === name);
+
+const TYPE_LABELS: Record<ColumnType, string> = {
+  id: 'unique ID',
+  text: 'text',
+  integer: 'integer',
+  textList: 'comma-separated list',
+  phaseList: 'phases as a range "1-3", a list [1,2,3] or a mix like "1-3,5"',
+  json: 'JSON object'
+};
+
+export function describeRange(column: ColumnSchema): string | null {
+  if (column.min !== undefined && column.max !== undefined) return `${column.min}-${column.max}`;
+  if (column.min !== undefined) return `>= ${column.min}`;
+  if (column.max !== undefined) return `<= ${column.max}`;
+  return null;
+}
+
+// One line of field context, e.g. `PriorityLevel (integer, 1-5, required): Client priority, 5 is the highest`
+export function describeColumn(column: ColumnSchema): string {
+  const constraints = [
+    TYPE_LABELS[column.type],
+    describeRange(column),
+    column.required ? 'required' : null,
+    column.enum ? `one of ${column.enum.join(', ')}` : null,
+    column.patternHint ? `format ${column.patternHint}` : null
+  ].filter(Boolean);
+
+  return `${column.name} (${constraints.join(', ')}): ${column.description}`;
+}
+
+// Field context for prompts, optionally limited to some columns
+export function describeSchema(type: EntityType, columns?: string[]): string {
+  return ENTITY_SCHEMAS[type]
+    .filter(column => !columns || columns.includes(column.name))
+    .map(column => `- ${describeColumn(column)}`)
+    .join('\n');
+}
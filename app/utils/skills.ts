@@ -0,0 +1,176 @@
+// app/utils/skills.ts
+import { DataRow } from './validations';
+import { EntityType } from './entities';
+import { getSchema } from './schema';
+
+export interface SkillDefinition {
+  name: string;
+  // Other spellings that mean the same skill, e.g. "JS" for JavaScript
+  aliases: string[];
+  // Skills this one implies: anyone with React also counts as having JavaScript
+  parents: string[];
+}
+
+export interface SkillIndex {
+  canonical: Map<string, string>;
+  implied: Map<string, string[]>;
+}
+
+export const DEFAULT_SKILL_TAXONOMY: SkillDefinition[] = [
+  { name: 'JavaScript', aliases: ['JS', 'ECMAScript', 'ES6'], parents: [] },
+  { name: 'TypeScript', aliases: ['TS'], parents: ['JavaScript'] },
+  { name: 'React', aliases: ['ReactJS', 'React.js'], parents: ['JavaScript'] },
+  { name: 'Node.js', aliases: ['Node', 'NodeJS'], parents: ['JavaScript'] },
+  { name: 'Python', aliases: ['Py'], parents: [] },
+  { name: 'Machine Learning', aliases: ['ML'], parents: [] },
+  { name: 'Deep Learning', aliases: ['DL'], parents: ['Machine Learning'] },
+  { name: 'Data Analysis', aliases: ['Data Analytics'], parents: [] },
+  // Specific databases and design disciplines are child skills, not aliases: a MySQL worker
+  // covers a SQL requirement but not a PostgreSQL one
+  { name: 'SQL', aliases: [], parents: [] },
+  { name: 'PostgreSQL', aliases: ['Postgres', 'psql'], parents: ['SQL'] },
+  { name: 'MySQL', aliases: [], parents: ['SQL'] },
+  { name: 'UI/UX Design', aliases: ['UI/UX', 'UX/UI'], parents: [] },
+  { name: 'UI Design', aliases: ['UI'], parents: ['UI/UX Design'] },
+  { name: 'UX Design', aliases: ['UX'], parents: ['UI/UX Design'] }
+];
+
+const STORAGE_KEY = 'dataAlchemist.skillTaxonomy';
+
+// Case, spacing and punctuation are ignored, so "react.js", "React JS" and "ReactJS" compare equal.
+// "+" and "#" are kept so C++ and C# stay distinct from C.
+export const skillKey = (skill: string) => skill.toLowerCase().replace(/[^a-z0-9+#]/g, '');
+
+export function buildSkillIndex(taxonomy: SkillDefinition[]): SkillIndex {
+  const canonical = new Map<string, string>();
+  const parents = new Map<string, string[]>();
+
+  taxonomy.forEach(skill => {
+    const key = skillKey(skill.name);
+    if (!key) return;
+    canonical.set(key, skill.name);
+    skill.aliases.forEach(alias => {
+      const aliasKey = skillKey(alias);
+      if (aliasKey && !canonical.has(aliasKey)) canonical.set(aliasKey, skill.name);
+    });
+    parents.set(key, skill.parents.map(skillKey).filter(Boolean));
+  });
+
+  // Flatten the hierarchy once; the visited set keeps a cyclic taxonomy from looping
+  const implied = new Map<string, string[]>();
+  parents.forEach((_, key) => {
+    const visited = new Set<string>();
+    const stack = [...(parents.get(key) || [])];
+    while (stack.length > 0) {
+      const parent = stack.pop()!;
+      if (parent === key || visited.has(parent)) continue;
+      visited.add(parent);
+      stack.push(...(parents.get(parent) || []));
+    }
+    implied.set(key, Array.from(visited));
+  });
+
+  return { canonical, implied };
+}
+
+// Canonical name for a skill; skills outside the taxonomy are returned trimmed but otherwise as-is
+export function canonicalSkill(index: SkillIndex, skill: string): string {
+  return index.canonical.get(skillKey(skill)) || skill.trim();
+}
+
+// Keys of every skill a set of skills covers, including the ones implied through the hierarchy
+export function expandSkills(index: SkillIndex, skills: string[]): Set<string> {
+  const covered = new Set<string>();
+  skills.forEach(skill => {
+    const key = skillKey(canonicalSkill(index, skill));
+    covered.add(key);
+    (index.implied.get(key) || []).forEach(parent => covered.add(parent));
+  });
+  return covered;
+}
+
+export function coversSkill(index: SkillIndex, covered: Set<string>, required: string): boolean {
+  return covered.has(skillKey(canonicalSkill(index, required)));
+}
+
+export function normalizeSkillList(index: SkillIndex, skills: string[]): string[] {
+  const seen = new Set<string>();
+  const normalized: string[] = [];
+  skills.forEach(skill => {
+    const name = canonicalSkill(index, skill);
+    const key = skillKey(name);
+    if (!key || seen.has(key)) return;
+    seen.add(key);
+    normalized.push(name);
+  });
+  return normalized;
+}
+
+// Skill columns are marked in the entity schema
+export const getSkillColumns = (type: EntityType): string[] =>
+  getSchema(type).filter(column => column.skills).map(column => column.name);
+
+const splitSkills = (value: any): string[] =>
+  value === null || value === undefined ? [] : String(value).split(',').map(s => s.trim()).filter(Boolean);
+
+// Rewrite skill cells to canonical names. Returns the rows and how many cells changed,
+// so the caller can ask before applying it.
+export function normalizeSkillCells(index: SkillIndex, type: EntityType, rows: DataRow[]): { rows: DataRow[]; changedCells: number; examples: string[] } {
+  const columns = getSkillColumns(type);
+  const examples = new Set<string>();
+  let changedCells = 0;
+
+  const normalizedRows = rows.map(row => {
+    let updated: DataRow | null = null;
+    columns.forEach(column => {
+      const original = splitSkills(row[column]);
+      const normalized = normalizeSkillList(index, original);
+      if (original.join(',') === normalized.join(',')) return;
+
+      original.forEach(skill => {
+        const name = canonicalSkill(index, skill);
+        if (name !== skill) examples.add(`${skill} → ${name}`);
+      });
+      updated = updated || { ...row };
+      updated[column] = normalized.join(',');
+      changedCells++;
+    });
+    return updated || row;
+  });
+
+  return { rows: normalizedRows, changedCells, examples: Array.from(examples) };
+}
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Check a taxonomy read from storage or a file; null when it isn't one. Missing alias and parent
+// lists are read as empty.
+export function parseSkillTaxonomy(value: unknown): SkillDefinition[] | null {
+  if (!Array.isArray(value)) return null;
+  const valid = value.every(skill =>
+    typeof skill?.name === 'string' &&
+    (skill.aliases === undefined || isStringList(skill.aliases)) &&
+    (skill.parents === undefined || isStringList(skill.parents))
+  );
+  if (!valid) return null;
+  return value.map(skill => ({ name: skill.name, aliases: skill.aliases || [], parents: skill.parents || [] }));
+}
+
+export function loadSkillTaxonomy(): SkillDefinition[] {
+  if (typeof window === 'undefined') return DEFAULT_SKILL_TAXONOMY;
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_SKILL_TAXONOMY;
+    const taxonomy = parseSkillTaxonomy(JSON.parse(stored));
+    if (!taxonomy) console.error('Stored skill taxonomy is not a list of skills; using the default');
+    return taxonomy || DEFAULT_SKILL_TAXONOMY;
+  } catch (error) {
+    console.error('Failed to load skill taxonomy:', error);
+    return DEFAULT_SKILL_TAXONOMY;
+  }
+}
+
+export function saveSkillTaxonomy(taxonomy: SkillDefinition[]) {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(taxonomy));
+}
@@ -0,0 +1,137 @@
+// app/utils/suppressions.ts
+import { DataRow, ValidationError, ErrorCode } from './validations';
+import { EntityType, ID_FIELDS } from './entities';
+import { Rule } from './rules';
+import { findRowIndex } from './rowIdentity';
+
+export type Severity = ValidationError['type'];
+
+// An acknowledged problem. With an entity it covers that one record (by its ClientID, WorkerID
+// or TaskID, which survive re-imports) and with a rule that rule's findings; with neither it
+// covers every error with the code.
+export interface Suppression {
+  id: string;
+  code: ErrorCode;
+  entityType?: EntityType;
+  entityId?: string;
+  ruleId?: string;
+  // Rules get new ids when a project is re-opened, so the name is kept to find the rule again
+  ruleName?: string;
+  note: string;
+  createdAt: string;
+}
+
+export type SuppressionTarget = Pick<Suppression, 'entityType' | 'entityId' | 'ruleId' | 'ruleName'>;
+
+export interface SeverityOverride {
+  severity: Severity;
+  note: string;
+}
+
+// Per-project decisions about which findings matter and how much
+export interface ValidationPolicy {
+  suppressions: Suppression[];
+  severityOverrides: Partial<Record<ErrorCode, SeverityOverride>>;
+}
+
+export interface AcknowledgedError {
+  error: ValidationError;
+  suppression: Suppression;
+}
+
+export interface ReviewedErrors {
+  active: ValidationError[];
+  acknowledged: AcknowledgedError[];
+}
+
+export const EMPTY_POLICY: ValidationPolicy = { suppressions: [], severityOverrides: {} };
+
+const STORAGE_KEY = 'dataAlchemist.validationPolicy';
+
+// ID of the entity an error was found on, if it's a row-level error on a row that is still there
+export function getErrorEntityId(type: EntityType, error: ValidationError, rows: DataRow[]): string | undefined {
+  const index = findRowIndex(rows, error.rowId);
+  const id = index >= 0 ? String(rows[index][ID_FIELDS[type]] ?? '').trim() : '';
+  return id || undefined;
+}
+
+export function createSuppression(code: ErrorCode, note: string, target: SuppressionTarget = {}): Suppression {
+  const { entityType, entityId, ruleId, ruleName } = target;
+  return {
+    id: `suppression_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    code,
+    ...(entityType && entityId ? { entityType, entityId } : ruleId ? { ruleId, ruleName } : {}),
+    note: note.trim(),
+    createdAt: new Date().toISOString()
+  };
+}
+
+// Apply severity overrides, then split off the errors a suppression covers. Rule errors (no
+// entity type) are covered by code-wide suppressions and by those for the rule they were found in.
+export function applyValidationPolicy(
+  policy: ValidationPolicy,
+  errors: ValidationError[],
+  type?: EntityType,
+  rows: DataRow[] = []
+): ReviewedErrors {
+  const reviewed: ReviewedErrors = { active: [], acknowledged: [] };
+
+  errors.forEach(original => {
+    const severity = policy.severityOverrides[original.code]?.severity;
+    const error = severity && severity !== original.type ? { ...original, type: severity } : original;
+
+    const entityId = type ? getErrorEntityId(type, error, rows) : undefined;
+    const suppression = policy.suppressions.find(s => {
+      if (s.code !== error.code) return false;
+      if (s.entityType) return s.entityType === type && s.entityId === entityId;
+      if (s.ruleId) return s.ruleId === error.ruleId;
+      return true;
+    });
+
+    if (suppression) reviewed.acknowledged.push({ error, suppression });
+    else reviewed.active.push(error);
+  });
+
+  return reviewed;
+}
+
+// Reads a policy from storage or an imported rules.json, dropping anything malformed
+export function parseValidationPolicy(value: any): ValidationPolicy {
+  if (!value || typeof value !== 'object') return EMPTY_POLICY;
+  const suppressions = Array.isArray(value.suppressions)
+    ? value.suppressions.filter((s: any) => s && typeof s.code === 'string' && typeof s.note === 'string' && s.note.trim())
+    : [];
+  const severityOverrides: ValidationPolicy['severityOverrides'] = {};
+  Object.entries(value.severityOverrides || {}).forEach(([code, override]: [string, any]) => {
+    if (override && (override.severity === 'error' || override.severity === 'warning')) {
+      severityOverrides[code as ErrorCode] = { severity: override.severity, note: String(override.note || '') };
+    }
+  });
+  return { suppressions, severityOverrides };
+}
+
+// Point rule suppressions at the current ids of the rules they were made for, matched by name
+export function relinkRuleSuppressions(policy: ValidationPolicy, rules: Rule[]): ValidationPolicy {
+  const suppressions = policy.suppressions.map(s => {
+    if (!s.ruleId || rules.some(rule => rule.id === s.ruleId)) return s;
+    const rule = rules.find(r => r.name === s.ruleName);
+    return rule ? { ...s, ruleId: rule.id } : s;
+  });
+  return { ...policy, suppressions };
+}
+
+export function loadValidationPolicy(): ValidationPolicy {
+  if (typeof window === 'undefined') return EMPTY_POLICY;
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? parseValidationPolicy(JSON.parse(stored)) : EMPTY_POLICY;
+  } catch (error) {
+    console.error('Failed to load validation policy:', error);
+    return EMPTY_POLICY;
+  }
+}
+
+export function saveValidationPolicy(policy: ValidationPolicy) {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(policy));
+}
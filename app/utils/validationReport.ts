@@ -0,0 +1,192 @@
+// app/utils/validationReport.ts
+import Papa from 'papaparse';
+import { DataRow, ValidationError } from './validations';
+import { EntityType, ENTITY_TYPES } from './entities';
+import { findRowIndex } from './rowIdentity';
+import { ReviewedErrors, ValidationPolicy, getErrorEntityId } from './suppressions';
+
+export type ReportFormat = 'json' | 'csv' | 'html';
+
+export interface ReportEntry {
+  scope: EntityType | 'rules';
+  entityId: string;
+  // 1-based row as shown in the grid; empty for dataset-level and rule issues
+  row: number | null;
+  field: string;
+  value: string;
+  code: string;
+  severity: ValidationError['type'];
+  status: 'open' | 'acknowledged';
+  message: string;
+  ruleId: string;
+  note: string;
+}
+
+export interface ValidationReport {
+  generatedAt: string;
+  // SHA-256 of the data the checks ran against, so the report can be tied to one exact dataset
+  fingerprint: string;
+  maxPhase: number | null;
+  summary: {
+    rows: Record<EntityType, number>;
+    errors: number;
+    warnings: number;
+    acknowledged: number;
+    byScope: Record<EntityType | 'rules', { errors: number; warnings: number; acknowledged: number }>;
+  };
+  entries: ReportEntry[];
+  policy: ValidationPolicy;
+}
+
+export interface ReportInput {
+  data: Record<EntityType, DataRow[]>;
+  reviewed: Record<EntityType | 'rules', ReviewedErrors>;
+  policy: ValidationPolicy;
+  maxPhase: number | null;
+}
+
+const cellText = (value: any): string =>
+  value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// Rows are hashed in order with their columns sorted, so the same data always gives the same fingerprint
+export async function fingerprintDataset(data: Record<EntityType, DataRow[]>): Promise<string> {
+  const canonical = JSON.stringify(ENTITY_TYPES.map(type =>
+    data[type].map(row => Object.keys(row).sort().map(key => [key, cellText(row[key])]))
+  ));
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function toEntries(scope: EntityType | 'rules', reviewed: ReviewedErrors, rows: DataRow[]): ReportEntry[] {
+  const toEntry = (error: ValidationError, note: string | null): ReportEntry => {
+    const index = findRowIndex(rows, error.rowId);
+    return {
+      scope,
+      entityId: scope === 'rules' ? '' : getErrorEntityId(scope, error, rows) || '',
+      row: index >= 0 ? index + 1 : null,
+      field: error.field || '',
+      value: index >= 0 && error.field ? cellText(rows[index][error.field]) : '',
+      code: error.code,
+      severity: error.type,
+      status: note === null ? 'open' : 'acknowledged',
+      message: error.message,
+      ruleId: error.ruleId || '',
+      note: note || ''
+    };
+  };
+
+  return [
+    ...reviewed.active.map(error => toEntry(error, null)),
+    ...reviewed.acknowledged.map(({ error, suppression }) => toEntry(error, suppression.note))
+  ];
+}
+
+export async function buildValidationReport({ data, reviewed, policy, maxPhase }: ReportInput): Promise<ValidationReport> {
+  const scopes: (EntityType | 'rules')[] = [...ENTITY_TYPES, 'rules'];
+  const entries = scopes.flatMap(scope => toEntries(scope, reviewed[scope], scope === 'rules' ? [] : data[scope]));
+
+  const count = (matches: (entry: ReportEntry) => boolean) => entries.filter(matches).length;
+  const byScope = {} as ValidationReport['summary']['byScope'];
+  scopes.forEach(scope => {
+    byScope[scope] = {
+      errors: count(e => e.scope === scope && e.status === 'open' && e.severity === 'error'),
+      warnings: count(e => e.scope === scope && e.status === 'open' && e.severity === 'warning'),
+      acknowledged: count(e => e.scope === scope && e.status === 'acknowledged')
+    };
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    fingerprint: await fingerprintDataset(data),
+    maxPhase,
+    summary: {
+      rows: { clients: data.clients.length, workers: data.workers.length, tasks: data.tasks.length },
+      errors: count(e => e.status === 'open' && e.severity === 'error'),
+      warnings: count(e => e.status === 'open' && e.severity === 'warning'),
+      acknowledged: count(e => e.status === 'acknowledged'),
+      byScope
+    },
+    entries,
+    policy
+  };
+}
+
+const REPORT_COLUMNS: (keyof ReportEntry)[] = ['scope', 'entityId', 'row', 'field', 'value', 'code', 'severity', 'status', 'message', 'ruleId', 'note'];
+
+// One line per finding, as a plain table any spreadsheet or CSV reader opens as-is. The timestamp,
+// fingerprint and summary are only in the JSON and HTML reports.
+export function reportToCsv(report: ValidationReport): string {
+  return Papa.unparse({
+    fields: REPORT_COLUMNS,
+    data: report.entries.map(entry => REPORT_COLUMNS.map(column => entry[column] ?? ''))
+  });
+}
+
+const escapeHtml = (value: any) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Self-contained page with inline styles, so it can be archived or emailed as-is
+export function reportToHtml(report: ValidationReport): string {
+  const { summary } = report;
+  const scopeRows = (Object.keys(summary.byScope) as (EntityType | 'rules')[]).map(scope => `
+      <tr><td>${scope}</td><td>${scope === 'rules' ? '' : summary.rows[scope]}</td><td>${summary.byScope[scope].errors}</td><td>${summary.byScope[scope].warnings}</td><td>${summary.byScope[scope].acknowledged}</td></tr>`).join('');
+  const entryRows = report.entries.map(entry => `
+      <tr class="${entry.status === 'acknowledged' ? 'acknowledged' : entry.severity}">${REPORT_COLUMNS.map(column => `<td>${escapeHtml(entry[column])}</td>`).join('')}</tr>`).join('');
+  const suppressionRows = report.policy.suppressions.map(s => `
+      <tr><td>${escapeHtml(s.code)}</td><td>${escapeHtml(s.entityId ? `${s.entityType} ${s.entityId}` : s.ruleId ? `rule "${s.ruleName}"` : 'all')}</td><td>${escapeHtml(s.note)}</td><td>${escapeHtml(s.createdAt)}</td></tr>`).join('');
+  const overrideRows = Object.entries(report.policy.severityOverrides).map(([code, override]) => `
+      <tr><td>${escapeHtml(code)}</td><td>${escapeHtml(override!.severity)}</td><td>${escapeHtml(override!.note)}</td></tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Validation report ${escapeHtml(report.generatedAt)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; color: #1f2937; margin: 2rem; }
+    h1 { font-size: 1.5rem; } h2 { font-size: 1.1rem; margin-top: 2rem; }
+    table { border-collapse: collapse; width: 100%; font-size: 0.85rem; }
+    th, td { border: 1px solid #e5e7eb; padding: 0.35rem 0.5rem; text-align: left; vertical-align: top; }
+    th { background: #f9fafb; }
+    tr.error td { background: #fef2f2; } tr.warning td { background: #fffbeb; } tr.acknowledged td { color: #6b7280; }
+    code { font-size: 0.8rem; }
+  </style>
+</head>
+<body>
+  <h1>Validation report</h1>
+  <p>Generated ${escapeHtml(report.generatedAt)}${report.maxPhase ? ` • last phase ${report.maxPhase}` : ''}</p>
+  <p>Dataset fingerprint (SHA-256): <code>${escapeHtml(report.fingerprint)}</code></p>
+  <h2>Summary: ${summary.errors} errors, ${summary.warnings} warnings, ${summary.acknowledged} acknowledged</h2>
+  <table>
+    <tr><th>Scope</th><th>Rows</th><th>Errors</th><th>Warnings</th><th>Acknowledged</th></tr>${scopeRows}
+  </table>
+  <h2>Findings</h2>
+  <table>
+    <tr>${REPORT_COLUMNS.map(column => `<th>${column}</th>`).join('')}</tr>${entryRows}
+  </table>
+  <h2>Acknowledgements</h2>
+  <table>
+    <tr><th>Code</th><th>Applies to</th><th>Note</th><th>Created</th></tr>${suppressionRows}
+  </table>
+  <h2>Severity overrides</h2>
+  <table>
+    <tr><th>Code</th><th>Reported as</th><th>Note</th></tr>${overrideRows}
+  </table>
+</body>
+</html>
+`;
+}
+
+export function formatReport(report: ValidationReport, format: ReportFormat): { content: string; mimeType: string; extension: string } {
+  switch (format) {
+    case 'csv':
+      return { content: reportToCsv(report), mimeType: 'text/csv', extension: 'csv' };
+    case 'html':
+      return { content: reportToHtml(report), mimeType: 'text/html', extension: 'html' };
+    default:
+      return { content: JSON.stringify(report, null, 2), mimeType: 'application/json', extension: 'json' };
+  }
+}
@@ -1,34 +1,106 @@
 // app/utils/validations.ts
-import { Rule, CoRunRule, PhaseWindowRule } from './rules';
+import { Rule, CoRunRule, PhaseWindowRule, SlotRestrictionRule, LoadLimitRule, PatternMatchRule, PrecedenceRule } from './rules';
+import { Client, Worker, Task, EntityType, ENTITY_TYPES, ID_FIELDS, normalizeEntities } from './entities';
+import { getSchema, getColumnNames, describeRange } from './schema';
+import { formatPhaseSet, phasesBeyond } from './phases';
+import { SkillDefinition, SkillIndex, DEFAULT_SKILL_TAXONOMY, buildSkillIndex, expandSkills, coversSkill } from './skills';
+import { ROW_ID, getRowId } from './rowIdentity';
+import { analyzeSlotRestriction, analyzeLoadLimit, analyzeCapacity, findDurationWindow, findCoRunClusters, describeCoRunProblems, CoRunCluster } from './feasibility';
+
+// Machine-readable kind of problem; codes with a built-in fixer are listed in autoFix.ts
+export type ErrorCode =
+  // Row and column checks
+  | 'MISSING_COLUMNS'
+  | 'MISSING_ID'
+  | 'DUPLICATE_ID'
+  | 'REQUIRED_VALUE'
+  | 'NOT_A_NUMBER'
+  | 'MALFORMED_SLOTS'
+  | 'BROKEN_JSON'
+  | 'OUT_OF_RANGE'
+  | 'PHASE_BEYOND_MAX'
+  | 'INVALID_OPTION'
+  | 'ID_FORMAT'
+  | 'UNKNOWN_TASK_REF'
+  | 'MISSING_SKILLS'
+  | 'NO_DURATION_WINDOW'
+  | 'MAX_CONCURRENT_EXCEEDS_WORKERS'
+  // Rule and feasibility checks
+  | 'RULE_REFERENCE'
+  | 'CORUN_CLUSTER'
+  | 'PHASE_WINDOW_INVALID'
+  | 'SLOT_RESTRICTION_INFEASIBLE'
+  | 'LOAD_LIMIT_MISMATCH'
+  | 'LOAD_LIMIT_INFEASIBLE'
+  | 'CAPACITY_SHORTFALL'
+  | 'PHASE_BOTTLENECK'
+  | 'TASKS_UNDERSTAFFED';
 
 export interface ValidationError {
   type: 'error' | 'warning';
+  code: ErrorCode;
   message: string;
+  // Index of the row when it was validated, or -1 for dataset-level problems.
+  // Use rowId to find the row again; indices shift as rows are added and removed.
   row: number;
+  rowId?: string;
   field?: string;
+  // Structured facts behind the message, e.g. the allowed range or the unknown IDs
+  details?: Record<string, any>;
+  // Set on rule errors: the rule the problem was found in
+  ruleId?: string;
 }
 
 export interface DataRow {
   [key: string]: any;
+  [ROW_ID]?: string;
 }
 
+export const REQUIRED_COLUMNS: Record<EntityType, string[]> = {
+  clients: getColumnNames('clients'),
+  workers: getColumnNames('workers'),
+  tasks: getColumnNames('tasks')
+};
+
+// Entities whose checks read from another entity and must be re-run when it changes:
+// clients reference tasks and tasks need worker skills and capacity.
+export const VALIDATION_DEPENDENTS: Record<EntityType, EntityType[]> = {
+  clients: [],
+  workers: ['tasks'],
+  tasks: ['clients']
+};
+
 export class Validator {
-  private clientData: DataRow[] = [];
-  private workerData: DataRow[] = [];
-  private taskData: DataRow[] = [];
+  private clients: Client[] = [];
+  private workers: Worker[] = [];
+  private tasks: Task[] = [];
   private rules: Rule[] = [];
+  private maxPhase: number | null = null;
+  private skillIndex: SkillIndex = buildSkillIndex(DEFAULT_SKILL_TAXONOMY);
+  // Fields that failed to parse in at least one row. Checks derived from such a field are
+  // skipped, so a single bad cell is reported once rather than through its consequences.
+  private unparsedFields: Record<EntityType, Set<string>> = { clients: new Set(), workers: new Set(), tasks: new Set() };
 
-  setData(type: 'clients' | 'workers' | 'tasks', data: DataRow[]) {
+  setData(type: EntityType, data: DataRow[]) {
     switch (type) {
-      case 'clients':
-        this.clientData = data;
+      case 'clients': {
+        const { entities, errors } = normalizeEntities('clients', data);
+        this.clients = entities;
+        this.unparsedFields.clients = new Set(errors.map(e => e.field));
         break;
-      case 'workers':
-        this.workerData = data;
+      }
+      case 'workers': {
+        const { entities, errors } = normalizeEntities('workers', data);
+        this.workers = entities;
+        this.unparsedFields.workers = new Set(errors.map(e => e.field));
         break;
-      case 'tasks':
-        this.taskData = data;
+      }
+      case 'tasks': {
+        const { entities, errors } = normalizeEntities('tasks', data);
+        this.tasks = entities;
+        this.unparsedFields.tasks = new Set(errors.map(e => e.field));
         break;
+      }
     }
   }
 
@@ -36,208 +108,324 @@ export class Validator {
     this.rules = rules;
   }
 
-  validateData(type: 'clients' | 'workers' | 'tasks', data: DataRow[]): ValidationError[] {
+  setSkillTaxonomy(taxonomy: SkillDefinition[]) {
+    this.skillIndex = buildSkillIndex(taxonomy);
+  }
+
+  // Highest phase in the project; null leaves phases unbounded
+  setMaxPhase(maxPhase: number | null) {
+    this.maxPhase = maxPhase;
+  }
+
+  validateData(type: EntityType, data: DataRow[]): ValidationError[] {
     const errors: ValidationError[] = [];
     
     // Core validations as per assignment
     this.validateRequiredColumns(type, data, errors);
-    this.validateDuplicateIds(type, data, errors);
     
+    // Parse failures from building the typed model are reported as-is; the checks
+    // below only see values that parsed
     if (type === 'clients') {
-      this.validateClientData(data, errors);
+      const { entities, errors: parseErrors } = normalizeEntities('clients', data);
+      errors.push(...parseErrors);
+      this.validateDuplicateIds(type, entities, data, errors);
+      this.validateColumnConstraints(type, entities, errors);
+      this.validateCrossReferences(type, entities, errors);
     } else if (type === 'workers') {
-      this.validateWorkerData(data, errors);
+      const { entities, errors: parseErrors } = normalizeEntities('workers', data);
+      errors.push(...parseErrors);
+      this.validateDuplicateIds(type, entities, data, errors);
+      this.validateColumnConstraints(type, entities, errors);
+      this.validateCrossReferences(type, entities, errors);
     } else if (type === 'tasks') {
-      this.validateTaskData(data, errors);
+      const { entities, errors: parseErrors } = normalizeEntities('tasks', data);
+      errors.push(...parseErrors);
+      this.validateDuplicateIds(type, entities, data, errors);
+      this.validateColumnConstraints(type, entities, errors);
+      this.validateCrossReferences(type, entities, errors);
     }
     
-    // Cross-reference validations
-    this.validateCrossReferences(type, data, errors);
+    errors.forEach(error => {
+      if (error.row >= 0) error.rowId = getRowId(data[error.row]);
+    });
     
     return errors;
   }
 
+  // Validate the changed entities plus everything that depends on them, all against the same
+  // snapshot so no check sees a half-updated dataset
+  validateAffected(changed: EntityType[], data: Record<EntityType, DataRow[]>): Partial<Record<EntityType, ValidationError[]>> {
+    ENTITY_TYPES.forEach(type => this.setData(type, data[type]));
+    
+    const affected = new Set<EntityType>(changed);
+    changed.forEach(type => VALIDATION_DEPENDENTS[type].forEach(dependent => affected.add(dependent)));
+    
+    const results: Partial<Record<EntityType, ValidationError[]>> = {};
+    ENTITY_TYPES.filter(type => affected.has(type)).forEach(type => {
+      results[type] = this.validateData(type, data[type]);
+    });
+    return results;
+  }
+
   // NEW: Validate rules for circular dependencies and conflicts
   validateRules(rules: Rule[]): ValidationError[] {
     const errors: ValidationError[] = [];
     
-    // Validation 7: Circular co-run groups
-    this.validateCircularCoRuns(rules, errors);
+    // Validation 7: Co-run clusters that can't be scheduled together, including co-run tasks
+    // whose phase windows don't overlap
+    this.validateCoRunClusters(rules, errors);
+    
+    this.validatePhaseWindows(rules, errors);
+    
+    this.validateSlotRestrictions(rules, errors);
+    
+    this.validateLoadLimits(rules, errors);
     
-    // Validation 8: Conflicting rules vs phase-window constraints
-    this.validateRuleConflicts(rules, errors);
+    rules.filter(r => r.enabled).forEach(rule => errors.push(...this.checkRuleReferences(rule)));
     
     return errors;
   }
 
-  private validateCircularCoRuns(rules: Rule[], errors: ValidationError[]) {
-    const coRunRules = rules.filter(r => r.type === 'coRun' && r.enabled) as CoRunRule[];
-    if (coRunRules.length < 2) return;
-
-    // Build adjacency graph
-    const graph = new Map<string, Set<string>>();
+  // Check that everything a rule names exists in the loaded data. Entities that haven't been
+  // uploaded yet are not checked, so rules can be set up before the data arrives.
+  checkRuleReferences(rule: Rule): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const report = (message: string) => errors.push({ type: 'error', code: 'RULE_REFERENCE', message: `Rule "${rule.name}": ${message}`, row: -1, ruleId: rule.id });
     
-    coRunRules.forEach(rule => {
-      rule.tasks.forEach(task => {
-        if (!graph.has(task)) {
-          graph.set(task, new Set());
+    const taskIds = new Set(this.tasks.map(t => t.TaskID));
+    const workerGroups = new Set(this.workers.map(w => w.WorkerGroup).filter(Boolean));
+    const clientGroups = new Set(this.clients.map(c => c.GroupTag).filter(Boolean));
+    
+    const checkTask = (taskId: string) => {
+      if (this.tasks.length > 0 && !taskIds.has(taskId)) report(`unknown task ${taskId}`);
+    };
+    
+    switch (rule.type) {
+      case 'coRun': {
+        const tasks = Array.from(new Set((rule as CoRunRule).tasks || []));
+        if (tasks.length < 2) report('a co-run group needs at least two different tasks');
+        tasks.forEach(checkTask);
+        break;
+      }
+      case 'phaseWindow':
+        checkTask((rule as PhaseWindowRule).taskId);
+        break;
+      case 'loadLimit': {
+        const { workerGroup, maxSlotsPerPhase } = rule as LoadLimitRule;
+        if (this.workers.length > 0 && !workerGroups.has(workerGroup)) report(`no worker belongs to group "${workerGroup}"`);
+        if (!(maxSlotsPerPhase >= 1)) report('max slots per phase must be at least 1');
+        break;
+      }
+      case 'slotRestriction': {
+        const { groupType, groupName, minCommonSlots } = rule as SlotRestrictionRule;
+        if (groupType === 'worker') {
+          if (this.workers.length > 0 && !workerGroups.has(groupName)) report(`no worker belongs to group "${groupName}"`);
+        } else if (groupType === 'client') {
+          if (this.clients.length > 0 && !clientGroups.has(groupName)) report(`no client has group tag "${groupName}"`);
+        } else {
+          report(`unknown group type "${groupType}"`);
         }
-        // Add all other tasks in the same co-run group
-        rule.tasks.forEach(otherTask => {
-          if (task !== otherTask) {
-            graph.get(task)!.add(otherTask);
-          }
-        });
+        if (!(minCommonSlots >= 1)) report('min common slots must be at least 1');
+        break;
+      }
+      case 'patternMatch':
+        try {
+          new RegExp((rule as PatternMatchRule).regex);
+        } catch (e) {
+          report(`invalid regex "${(rule as PatternMatchRule).regex}"`);
+        }
+        break;
+      case 'precedence': {
+        const { scope, specificTarget } = rule as PrecedenceRule;
+        if (scope === 'specific') {
+          const knownTargets = new Set<string>([
+            ...this.clients.map(c => c.ClientID),
+            ...this.workers.map(w => w.WorkerID),
+            ...taskIds,
+            ...workerGroups,
+            ...clientGroups
+          ]);
+          const hasData = this.clients.length > 0 || this.workers.length > 0 || this.tasks.length > 0;
+          if (!specificTarget) report('a specific precedence rule needs a target');
+          else if (hasData && !knownTargets.has(specificTarget)) report(`unknown target "${specificTarget}"`);
+        }
+        break;
+      }
+      default: {
+        // Every type is handled above; rules loaded from an old save can still carry one that isn't
+        const unknownRule: never = rule;
+        report(`unknown rule type "${(unknownRule as { type: string }).type}"`);
+      }
+    }
+    
+    return errors;
+  }
+
+  // Co-run rules merged into the clusters that actually have to run together
+  getCoRunClusters(rules: Rule[]): CoRunCluster[] {
+    return findCoRunClusters(rules, { clients: this.clients, workers: this.workers, tasks: this.tasks }, this.skillIndex);
+  }
+
+  private validateCoRunClusters(rules: Rule[], errors: ValidationError[]) {
+    this.getCoRunClusters(rules).forEach(cluster => {
+      describeCoRunProblems(cluster).forEach(problem => {
+        errors.push({ ...problem, code: 'CORUN_CLUSTER', details: { taskIds: cluster.taskIds }, row: -1, ruleId: cluster.rules[0].id });
       });
     });
+  }
 
-    // Detect cycles using DFS
-    const visited = new Set<string>();
-    const recStack = new Set<string>();
-
-    const hasCycle = (node: string): boolean => {
-      if (recStack.has(node)) return true;
-      if (visited.has(node)) return false;
+  private validatePhaseWindows(rules: Rule[], errors: ValidationError[]) {
+    const phaseWindowRules = rules.filter(r => r.type === 'phaseWindow' && r.enabled) as PhaseWindowRule[];
+    
+    phaseWindowRules.forEach(rule => {
+      if (rule.allowedPhases.length === 0) {
+        errors.push({
+          type: 'error',
+          code: 'PHASE_WINDOW_INVALID',
+          message: `Phase-window rule "${rule.name}" allows no phases`,
+          row: -1,
+          ruleId: rule.id
+        });
+        return;
+      }
+      
+      const beyond = phasesBeyond(rule.allowedPhases, this.maxPhase);
+      if (beyond.length > 0) {
+        errors.push({
+          type: 'error',
+          code: 'PHASE_WINDOW_INVALID',
+          details: { beyond },
+          message: `Phase-window rule "${rule.name}" allows phases beyond the last phase (${this.maxPhase}): ${formatPhaseSet(beyond)}`,
+          row: -1,
+          ruleId: rule.id
+        });
+      }
+    });
+  }
 
-      visited.add(node);
-      recStack.add(node);
+  private validateSlotRestrictions(rules: Rule[], errors: ValidationError[]) {
+    const slotRules = rules.filter(r => r.type === 'slotRestriction' && r.enabled) as SlotRestrictionRule[];
+    const data = { clients: this.clients, workers: this.workers, tasks: this.tasks };
 
-      const neighbors = graph.get(node) || new Set();
-      for (const neighbor of neighbors) {
-        if (hasCycle(neighbor)) return true;
-      }
+    slotRules.forEach(rule => {
+      const analysis = analyzeSlotRestriction(rule, data);
+      if (!analysis || analysis.feasible) return;
 
-      recStack.delete(node);
-      return false;
-    };
+      const count = analysis.commonSlots.length;
+      const shared = count > 0 ? `${count} common slot${count === 1 ? '' : 's'} (${formatPhaseSet(analysis.commonSlots)})` : 'no common slots';
+      const culprits = analysis.restrictiveMembers
+        .slice(0, 3)
+        .map(member => `${member.id} (+${member.slotsFreed} without)`)
+        .join(', ');
 
-    for (const [node] of graph) {
-      if (!visited.has(node)) {
-        if (hasCycle(node)) {
-          errors.push({
-            type: 'error',
-            message: `Circular co-run groups detected involving task ${node}. This creates impossible scheduling constraints.`,
-            row: -1
-          });
-          break; // Only report one circular dependency
-        }
-      }
-    }
+      errors.push({
+        type: 'error',
+        code: 'SLOT_RESTRICTION_INFEASIBLE',
+        details: { commonSlots: analysis.commonSlots, required: rule.minCommonSlots, restrictiveMembers: analysis.restrictiveMembers },
+        message: `Slot-restriction rule "${rule.name}": ${rule.groupType} group "${rule.groupName}" shares ${shared} but needs ${rule.minCommonSlots}` +
+          (culprits ? `. Most restrictive: ${culprits}` : ''),
+        row: -1,
+        ruleId: rule.id
+      });
+    });
   }
 
-  private validateRuleConflicts(rules: Rule[], errors: ValidationError[]) {
-    const coRunRules = rules.filter(r => r.type === 'coRun' && r.enabled) as CoRunRule[];
-    const phaseWindowRules = rules.filter(r => r.type === 'phaseWindow' && r.enabled) as PhaseWindowRule[];
+  private validateLoadLimits(rules: Rule[], errors: ValidationError[]) {
+    const loadLimitRules = rules.filter(r => r.type === 'loadLimit' && r.enabled) as LoadLimitRule[];
+    const data = { clients: this.clients, workers: this.workers, tasks: this.tasks };
+    const listWorkers = (workers: { id: string; maxLoad: number }[]) =>
+      workers.map(w => `${w.id} (${w.maxLoad})`).join(', ');
 
-    // Check for conflicts between co-run and phase-window rules
-    coRunRules.forEach(coRunRule => {
-      const tasksInCoRun = coRunRule.tasks;
-      
-      // Find phase window constraints for tasks in this co-run group
-      const phaseConstraints = new Map<string, number[]>();
-      
-      tasksInCoRun.forEach(taskId => {
-        const phaseRule = phaseWindowRules.find(pr => pr.taskId === taskId);
-        if (phaseRule) {
-          phaseConstraints.set(taskId, phaseRule.allowedPhases);
-        } else {
-          // Get preferred phases from task data
-          const taskData = this.taskData.find(t => t.TaskID === taskId);
-          if (taskData && taskData.PreferredPhases) {
-            const phases = this.parsePhases(taskData.PreferredPhases);
-            if (phases.length > 0) {
-              phaseConstraints.set(taskId, phases);
-            }
-          }
-        }
+    loadLimitRules.forEach(rule => {
+      const analysis = analyzeLoadLimit(rule, rules, data, this.skillIndex);
+      if (!analysis) return;
+      const warn = (code: ErrorCode, message: string, details: Record<string, any>) => errors.push({
+        type: 'warning',
+        code,
+        details,
+        message: `Load-limit rule "${rule.name}" (max ${analysis.limit} per phase) ${message}`,
+        row: -1,
+        ruleId: rule.id
       });
 
-      // Check if there's any phase overlap for all tasks in co-run
-      if (phaseConstraints.size > 1) {
-        const phaseArrays = Array.from(phaseConstraints.values());
-        const commonPhases = phaseArrays.reduce((common, phases) => 
-          common.filter(phase => phases.includes(phase))
-        );
-
-        if (commonPhases.length === 0) {
-          const taskDetails = Array.from(phaseConstraints.entries())
-            .map(([task, phases]) => `${task} (phases: ${phases.join(',')})`)
-            .join(', ');
-          
-          errors.push({
-            type: 'error',
-            message: `Conflicting rules: Co-run rule "${coRunRule.name}" has no common phases available. Tasks: ${taskDetails}`,
-            row: -1
-          });
-        }
+      if (analysis.workersAbove.length > 0) {
+        warn('LOAD_LIMIT_MISMATCH', `is below the MaxLoadPerPhase of ${listWorkers(analysis.workersAbove)}; the rule caps them`, { workers: analysis.workersAbove });
+      }
+      if (analysis.workersBelow.length > 0) {
+        warn('LOAD_LIMIT_MISMATCH', `has no effect on ${listWorkers(analysis.workersBelow)}, whose own MaxLoadPerPhase is lower`, { workers: analysis.workersBelow });
       }
+      analysis.shortPhases.forEach(({ phase, taskIds, demand, capacity, uncapped }) => {
+        warn('LOAD_LIMIT_INFEASIBLE', `makes phase ${phase} infeasible: ${taskIds.join(', ')} can only run then and need ${demand} slots, ` +
+          `but qualified workers offer ${capacity} under the limit (${uncapped} without it)`,
+          { phase, taskIds, demand, capacity, uncapped });
+      });
     });
   }
 
-  private parsePhases(phasesStr: string): number[] {
-    try {
-      const cleanStr = phasesStr.toString().trim();
-      
-      // Handle range format (e.g., "1-3")
-      if (cleanStr.includes('-') && !cleanStr.startsWith('[')) {
-        const [start, end] = cleanStr.split('-').map(n => parseInt(n.trim()));
-        if (!isNaN(start) && !isNaN(end) && start <= end) {
-          const phases = [];
-          for (let i = start; i <= end; i++) {
-            phases.push(i);
-          }
-          return phases;
-        }
-      } 
-      // Handle array format [1,2,3] or "1,2,3"
-      else {
-        let cleanedPhases = cleanStr;
-        if (cleanStr.startsWith('[') && cleanStr.endsWith(']')) {
-          cleanedPhases = cleanStr.slice(1, -1);
-        }
-        
-        if (cleanedPhases) {
-          return cleanedPhases.split(',')
-            .map(p => parseInt(p.trim()))
-            .filter(p => !isNaN(p));
-        }
-      }
-    } catch (e) {
-      // Return empty array for malformed phases
-    }
-    return [];
+  // A data check, reported with the tasks: phase windows and load limits shape the capacity,
+  // but the shortfall is in the data rather than in any one rule
+  private validateCapacity(tasks: Task[], errors: ValidationError[]) {
+    const analysis = analyzeCapacity(this.rules, { clients: this.clients, workers: this.workers, tasks }, this.skillIndex, this.maxPhase);
+    if (analysis.assigned >= analysis.demand) return;
+
+    errors.push({
+      type: 'error',
+      code: 'CAPACITY_SHORTFALL',
+      details: { demand: analysis.demand, assigned: analysis.assigned },
+      message: `Capacity shortfall: tasks need ${analysis.demand} worker-phase slots, but qualified workers can cover at most ${analysis.assigned}`,
+      row: -1
+    });
+
+    analysis.bottleneckPhases.forEach(({ phase, capacity, skills }) => {
+      errors.push({
+        type: 'error',
+        code: 'PHASE_BOTTLENECK',
+        details: { phase, capacity, skills },
+        message: `Phase ${phase} is a bottleneck: all ${capacity} slots of qualified workers are taken` +
+          (skills.length > 0 ? ` (skills in short supply: ${skills.join(', ')})` : ''),
+        row: -1
+      });
+    });
+
+    analysis.shortTasks.forEach(({ taskId, assigned, demand }) => {
+      errors.push({
+        type: 'warning',
+        code: 'TASKS_UNDERSTAFFED',
+        details: { assigned, demand },
+        message: `Only ${assigned} of ${demand} worker-phase slots can be staffed`,
+        row: tasks.findIndex(task => task.TaskID === taskId),
+        field: 'Duration'
+      });
+    });
   }
 
-  private validateRequiredColumns(type: string, data: DataRow[], errors: ValidationError[]) {
+  private validateRequiredColumns(type: EntityType, data: DataRow[], errors: ValidationError[]) {
     if (data.length === 0) return;
     
-    const requiredColumns: Record<string, string[]> = {
-      clients: ['ClientID', 'ClientName', 'PriorityLevel', 'RequestedTaskIDs', 'GroupTag', 'AttributesJSON'],
-      workers: ['WorkerID', 'WorkerName', 'Skills', 'AvailableSlots', 'MaxLoadPerPhase', 'WorkerGroup', 'QualificationLevel'],
-      tasks: ['TaskID', 'TaskName', 'Category', 'Duration', 'RequiredSkills', 'PreferredPhases', 'MaxConcurrent']
-    };
-    
     const columns = Object.keys(data[0]);
-    const missingColumns = requiredColumns[type].filter(col => !columns.includes(col));
+    const missingColumns = REQUIRED_COLUMNS[type].filter(col => !columns.includes(col));
     
     if (missingColumns.length > 0) {
       errors.push({
         type: 'error',
+        code: 'MISSING_COLUMNS',
+        details: { columns: missingColumns },
         message: `Missing required columns: ${missingColumns.join(', ')}`,
         row: -1
       });
     }
   }
 
-  private validateDuplicateIds(type: string, data: DataRow[], errors: ValidationError[]) {
-    const idField = type === 'clients' ? 'ClientID' : type === 'workers' ? 'WorkerID' : 'TaskID';
+  private validateDuplicateIds(type: EntityType, entities: (Client | Worker | Task)[], rows: DataRow[], errors: ValidationError[]) {
+    const idField = ID_FIELDS[type];
     const seenIds = new Map<string, number>();
     
-    data.forEach((row, index) => {
-      const id = row[idField];
+    entities.forEach((entity, index) => {
+      const id = (entity as Record<string, any>)[idField] as string;
       if (!id) {
         errors.push({
           type: 'error',
+          code: 'MISSING_ID',
           message: `Missing ${idField}`,
           row: index,
           field: idField
@@ -248,7 +436,10 @@ export class Validator {
       if (seenIds.has(id)) {
         errors.push({
           type: 'error',
-          message: `Duplicate ${idField}: ${id} (also in row ${seenIds.get(id)! + 1})`,
+          code: 'DUPLICATE_ID',
+          // The first row is named by its identity, as indices shift when rows are added or removed
+          details: { id, firstRowId: getRowId(rows[seenIds.get(id)!]) },
+          message: `Duplicate ${idField}: ${id} is already used by an earlier row`,
           row: index,
           field: idField
         });
@@ -258,313 +449,153 @@ export class Validator {
     });
   }
 
-  private validateClientData(data: DataRow[], errors: ValidationError[]) {
-    data.forEach((row, index) => {
-      // Priority level validation (1-5)
-      const priority = parseInt(row.PriorityLevel);
-      if (isNaN(priority) || priority < 1 || priority > 5) {
-        errors.push({
-          type: 'error',
-          message: `PriorityLevel must be between 1-5, got: ${row.PriorityLevel}`,
-          row: index,
-          field: 'PriorityLevel'
-        });
-      }
-      
-      // AttributesJSON validation
-      if (row.AttributesJSON && row.AttributesJSON.trim() !== '') {
-        try {
-          JSON.parse(row.AttributesJSON);
-        } catch (e) {
+  // Range, enum and ID-format checks declared in the entity schema. Only values that parsed are
+  // checked; parse failures were already reported by normalisation.
+  private validateColumnConstraints(type: EntityType, entities: (Client | Worker | Task)[], errors: ValidationError[]) {
+    const columns = getSchema(type);
+    
+    entities.forEach((entity, index) => {
+      columns.forEach(column => {
+        const value = (entity as Record<string, any>)[column.name];
+        if (value === null || value === '') return;
+        
+        if (typeof value === 'number' &&
+            ((column.min !== undefined && value < column.min) || (column.max !== undefined && value > column.max))) {
+          const bounds = column.min !== undefined && column.max !== undefined
+            ? `between ${describeRange(column)}`
+            : describeRange(column);
           errors.push({
             type: 'error',
-            message: 'Broken JSON in AttributesJSON',
+            code: 'OUT_OF_RANGE',
+            details: { value, min: column.min, max: column.max },
+            message: `${column.name} must be ${bounds}, got: ${value}`,
             row: index,
-            field: 'AttributesJSON'
+            field: column.name
           });
         }
-      }
-    });
-  }
-
-  private validateWorkerData(data: DataRow[], errors: ValidationError[]) {
-    data.forEach((row, index) => {
-      // Available slots validation (malformed lists)
-      if (!row.AvailableSlots) {
-        errors.push({
-          type: 'error',
-          message: 'AvailableSlots is required',
-          row: index,
-          field: 'AvailableSlots'
-        });
-        return;
-      }
-
-      try {
-        let slots: number[] = [];
         
-        // Handle string that looks like an array
-        if (typeof row.AvailableSlots === 'string') {
-          const cleanedSlots = row.AvailableSlots.replace(/[\[\]]/g, '').trim();
-          if (cleanedSlots) {
-            slots = cleanedSlots.split(',').map((s: string) => {
-              const num = parseInt(s.trim());
-              if (isNaN(num)) {
-                throw new Error('Non-numeric value');
-              }
-              return num;
+        if (column.type === 'phaseList') {
+          const beyond = phasesBeyond(value, this.maxPhase);
+          if (beyond.length > 0) {
+            errors.push({
+              type: 'error',
+              code: 'PHASE_BEYOND_MAX',
+              details: { beyond, maxPhase: this.maxPhase },
+              message: `${column.name} includes phases beyond the last phase (${this.maxPhase}): ${formatPhaseSet(beyond)}`,
+              row: index,
+              field: column.name
             });
           }
-        } else if (Array.isArray(row.AvailableSlots)) {
-          slots = row.AvailableSlots.map(s => {
-            const num = parseInt(s);
-            if (isNaN(num)) {
-              throw new Error('Non-numeric value');
-            }
-            return num;
+        }
+        
+        if (column.enum && !column.enum.some(option => option.toLowerCase() === String(value).toLowerCase())) {
+          errors.push({
+            type: 'error',
+            code: 'INVALID_OPTION',
+            details: { value, options: column.enum },
+            message: `${column.name} must be one of ${column.enum.join(', ')}, got: ${value}`,
+            row: index,
+            field: column.name
           });
         }
-
-        // Overloaded workers check
-        const maxLoad = parseInt(row.MaxLoadPerPhase);
-        if (!isNaN(maxLoad) && slots.length < maxLoad) {
+        
+        if (column.pattern && !column.pattern.test(String(value))) {
           errors.push({
             type: 'warning',
-            message: `Worker overloaded: ${slots.length} available slots < ${maxLoad} max load per phase`,
-            row: index
+            code: 'ID_FORMAT',
+            message: `${column.name} "${value}" does not follow the expected format (${column.patternHint || column.pattern.source})`,
+            row: index,
+            field: column.name
           });
         }
-      } catch (e) {
-        errors.push({
-          type: 'error',
-          message: 'Malformed list in AvailableSlots - must contain only numeric values',
-          row: index,
-          field: 'AvailableSlots'
-        });
-      }
-      
-      // Max load validation
-      const maxLoad = parseInt(row.MaxLoadPerPhase);
-      if (isNaN(maxLoad) || maxLoad < 1) {
-        errors.push({
-          type: 'error',
-          message: 'MaxLoadPerPhase must be >= 1',
-          row: index,
-          field: 'MaxLoadPerPhase'
-        });
-      }
+      });
     });
   }
 
-  private validateTaskData(data: DataRow[], errors: ValidationError[]) {
-    data.forEach((row, index) => {
-      // Duration validation
-      const duration = parseInt(row.Duration);
-      if (isNaN(duration) || duration < 1) {
-        errors.push({
-          type: 'error',
-          message: `Duration must be >= 1, got: ${row.Duration}`,
-          row: index,
-          field: 'Duration'
-        });
-      }
+  private validateCrossReferences(type: EntityType, entities: (Client | Worker | Task)[], errors: ValidationError[]) {
+    if (type === 'clients' && this.tasks.length > 0) {
+      const validTaskIds = new Set(this.tasks.map(t => t.TaskID));
       
-      // MaxConcurrent validation
-      const maxConcurrent = parseInt(row.MaxConcurrent);
-      if (isNaN(maxConcurrent) || maxConcurrent < 1) {
-        errors.push({
-          type: 'error',
-          message: `MaxConcurrent must be >= 1, got: ${row.MaxConcurrent}`,
-          row: index,
-          field: 'MaxConcurrent'
-        });
-      }
-      
-      // PreferredPhases validation
-      if (row.PreferredPhases) {
-        const phasesStr = row.PreferredPhases.toString().trim();
+      (entities as Client[]).forEach((client, index) => {
+        const invalidTasks = client.RequestedTaskIDs.filter(t => !validTaskIds.has(t));
         
-        try {
-          let phases: number[] = [];
-          
-          // Handle range format (e.g., "1-3")
-          if (phasesStr.includes('-') && !phasesStr.startsWith('[')) {
-            const parts = phasesStr.split('-');
-            if (parts.length === 2) {
-              const start = parseInt(parts[0].trim());
-              const end = parseInt(parts[1].trim());
-              
-              if (isNaN(start) || isNaN(end) || start < 1 || end < start) {
-                throw new Error('Invalid range');
-              }
-            }
-          } 
-          // Handle array format [1,2,3] or 1,2,3
-          else {
-            let cleanedPhases = phasesStr;
-            
-            if (phasesStr.startsWith('[') && phasesStr.endsWith(']')) {
-              cleanedPhases = phasesStr.slice(1, -1);
-            }
-            
-            if (cleanedPhases) {
-              cleanedPhases.split(',').forEach(p => {
-                const num = parseInt(p.trim());
-                if (isNaN(num)) {
-                  throw new Error('Non-numeric value');
-                }
-              });
-            }
-          }
-        } catch (e) {
+        if (invalidTasks.length > 0) {
           errors.push({
             type: 'error',
-            message: 'Malformed list in PreferredPhases',
+            code: 'UNKNOWN_TASK_REF',
+            details: { unknownIds: invalidTasks },
+            message: `Unknown task references: ${invalidTasks.join(', ')}`,
             row: index,
-            field: 'PreferredPhases'
+            field: 'RequestedTaskIDs'
           });
         }
-      }
-    });
-  }
-
-  private validateCrossReferences(type: string, data: DataRow[], errors: ValidationError[]) {
-    if (type === 'clients' && this.taskData.length > 0) {
-      const validTaskIds = new Set(this.taskData.map(t => t.TaskID));
-      
-      data.forEach((row, index) => {
-        if (row.RequestedTaskIDs) {
-          const requestedTasks = row.RequestedTaskIDs.toString().split(',').map((t: string) => t.trim());
-          const invalidTasks = requestedTasks.filter(t => t && !validTaskIds.has(t));
-          
-          if (invalidTasks.length > 0) {
-            errors.push({
-              type: 'error',
-              message: `Unknown task references: ${invalidTasks.join(', ')}`,
-              row: index,
-              field: 'RequestedTaskIDs'
-            });
-          }
-        }
       });
     }
     
-    if (type === 'tasks' && this.workerData.length > 0) {
-      // Skill coverage validation
-      const allWorkerSkills = new Set<string>();
-      this.workerData.forEach(w => {
-        if (w.Skills) {
-          w.Skills.toString().split(',').forEach((s: string) => 
-            allWorkerSkills.add(s.trim().toLowerCase())
-          );
-        }
-      });
+    if (type === 'tasks' && this.workers.length > 0) {
+      // Skill coverage validation; aliases and implied parent skills count as a match
+      const workerSkills = this.workers.map(w => expandSkills(this.skillIndex, w.Skills));
+      const allWorkerSkills = new Set(workerSkills.flatMap(skills => Array.from(skills)));
       
-      data.forEach((row, index) => {
-        if (row.RequiredSkills) {
-          const requiredSkills = row.RequiredSkills.toString().split(',').map((s: string) => s.trim());
-          const unmatchedSkills = requiredSkills.filter(s => 
-            s && !allWorkerSkills.has(s.toLowerCase())
-          );
-          
-          if (unmatchedSkills.length > 0) {
-            errors.push({
-              type: 'error',
-              message: `No workers have required skills: ${unmatchedSkills.join(', ')}`,
-              row: index,
-              field: 'RequiredSkills'
-            });
-          }
+      // Scheduling checks need the slots, loads, durations and phases they work from to have parsed
+      const workerSlotsParsed = !['AvailableSlots', 'MaxLoadPerPhase'].some(field => this.unparsedFields.workers.has(field));
+      const unscheduledRows = new Set(errors.filter(e => e.field === 'Duration' || e.field === 'PreferredPhases').map(e => e.row));
+      
+      (entities as Task[]).forEach((task, index) => {
+        const unmatchedSkills = task.RequiredSkills.filter(s => !coversSkill(this.skillIndex, allWorkerSkills, s));
+        
+        if (unmatchedSkills.length > 0) {
+          errors.push({
+            type: 'error',
+            code: 'MISSING_SKILLS',
+            details: { skills: unmatchedSkills },
+            message: `No workers have required skills: ${unmatchedSkills.join(', ')}`,
+            row: index,
+            field: 'RequiredSkills'
+          });
         }
         
-        // Max concurrency feasibility
-        if (row.MaxConcurrent && row.RequiredSkills) {
-          const requiredSkillsArray = row.RequiredSkills.toString()
-            .split(',')
-            .map((s: string) => s.trim().toLowerCase());
-          
-          const qualifiedWorkers = this.workerData.filter(w => {
-            if (!w.Skills) return false;
-            const workerSkills = w.Skills.toString()
-              .split(',')
-              .map((s: string) => s.trim().toLowerCase());
-            return requiredSkillsArray.every(skill => workerSkills.includes(skill));
+        // Duration needs that many consecutive allowed phases covered by one qualified worker
+        const duration = workerSlotsParsed && !unscheduledRows.has(index)
+          ? findDurationWindow(task, this.rules, { clients: this.clients, workers: this.workers, tasks: this.tasks }, this.skillIndex, this.maxPhase)
+          : null;
+        if (duration && !duration.window) {
+          const { phases, workerId } = duration.best;
+          errors.push({
+            type: 'error',
+            code: 'NO_DURATION_WINDOW',
+            details: { duration: task.Duration, bestWindow: phases, workerId },
+            message: `No ${task.Duration} consecutive phases with a qualified worker available throughout` +
+              (phases.length > 0 ? `; best window is phase${phases.length > 1 ? 's' : ''} ${formatPhaseSet(phases)} (${workerId})` : '; no qualified worker is available in any allowed phase'),
+            row: index,
+            field: 'Duration'
           });
+        }
+        
+        // Max concurrency feasibility
+        if (task.MaxConcurrent !== null && task.RequiredSkills.length > 0) {
+          const qualifiedWorkers = workerSkills.filter(skills =>
+            task.RequiredSkills.every(skill => coversSkill(this.skillIndex, skills, skill))
+          );
           
-          const maxConcurrent = parseInt(row.MaxConcurrent);
-          if (!isNaN(maxConcurrent) && qualifiedWorkers.length < maxConcurrent) {
+          if (qualifiedWorkers.length < task.MaxConcurrent) {
             errors.push({
               type: 'warning',
-              message: `MaxConcurrent (${maxConcurrent}) exceeds qualified workers (${qualifiedWorkers.length})`,
+              code: 'MAX_CONCURRENT_EXCEEDS_WORKERS',
+              details: { maxConcurrent: task.MaxConcurrent, qualifiedWorkers: qualifiedWorkers.length },
+              message: `MaxConcurrent (${task.MaxConcurrent}) exceeds qualified workers (${qualifiedWorkers.length})`,
               row: index,
               field: 'MaxConcurrent'
             });
           }
         }
       });
-    }
-    
-    // Phase-slot saturation validation
-    if ((type === 'workers' || type === 'tasks') && this.taskData.length > 0 && this.workerData.length > 0) {
-      this.validatePhaseSlotSaturation(errors);
-    }
-  }
-
-  private validatePhaseSlotSaturation(errors: ValidationError[]) {
-    const phaseCapacity = new Map<number, number>();
-    const phaseDemand = new Map<number, number>();
-    
-    // Calculate total slots per phase
-    this.workerData.forEach(worker => {
-      try {
-        let slots: number[] = [];
-        
-        if (typeof worker.AvailableSlots === 'string') {
-          const cleanedSlots = worker.AvailableSlots.replace(/[\[\]]/g, '').trim();
-          if (cleanedSlots) {
-            slots = cleanedSlots.split(',').map((s: string) => parseInt(s.trim()));
-          }
-        } else if (Array.isArray(worker.AvailableSlots)) {
-          slots = worker.AvailableSlots.map(s => parseInt(s));
-        }
-        
-        slots.forEach(phase => {
-          if (!isNaN(phase) && phase > 0) {
-            phaseCapacity.set(phase, (phaseCapacity.get(phase) || 0) + 1);
-          }
-        });
-      } catch (e) {
-        // Skip invalid slots
-      }
-    });
-    
-    // Calculate demand per phase
-    this.taskData.forEach(task => {
-      const duration = parseInt(task.Duration) || 1;
-      let phases: number[] = [];
-      
-      if (task.PreferredPhases) {
-        phases = this.parsePhases(task.PreferredPhases);
-      }
       
-      phases.forEach(phase => {
-        if (phase > 0) {
-          phaseDemand.set(phase, (phaseDemand.get(phase) || 0) + duration);
-        }
-      });
-    });
-    
-    // Check for saturation
-    phaseDemand.forEach((demand, phase) => {
-      const capacity = phaseCapacity.get(phase) || 0;
-      if (demand > capacity) {
-        errors.push({
-          type: 'error',
-          message: `Phase ${phase} saturation: ${demand} task duration > ${capacity} worker slots`,
-          row: -1
-        });
+      if (workerSlotsParsed && unscheduledRows.size === 0) {
+        this.validateCapacity(entities as Task[], errors);
       }
-    });
+    }
+
   }
 }
 
@@ -0,0 +1,71 @@
+// app/utils/workbook.ts
+import * as XLSX from 'xlsx';
+import { DataRow, REQUIRED_COLUMNS } from './validations';
+import { normalizeHeader } from './columnMapping';
+import { EntityType } from './entities';
+
+export interface WorkbookSheet {
+  sheetName: string;
+  entityType: EntityType | null;
+  headers: string[];
+  rows: DataRow[];
+}
+
+const WORKBOOK_EXTENSIONS = ['.xlsx', '.xls', '.ods'];
+
+// Minimum share of an entity's required columns a sheet must contain to be classified
+const DETECTION_THRESHOLD = 0.5;
+
+export function isWorkbookFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return WORKBOOK_EXTENSIONS.some(ext => name.endsWith(ext));
+}
+
+// Classify a sheet as clients, workers or tasks by how many of the required columns it carries.
+// The sheet name only breaks ties, since planners rename sheets more often than headers.
+export function detectEntityType(headers: string[], sheetName = ''): EntityType | null {
+  const normalizedHeaders = new Set(headers.map(normalizeHeader));
+  const normalizedSheetName = normalizeHeader(sheetName);
+
+  let bestType: EntityType | null = null;
+  let bestScore = 0;
+
+  (Object.keys(REQUIRED_COLUMNS) as EntityType[]).forEach(type => {
+    const required = REQUIRED_COLUMNS[type];
+    const matched = required.filter(col => normalizedHeaders.has(normalizeHeader(col))).length;
+    let score = matched / required.length;
+
+    // Singular form of the entity name, e.g. "client" for a sheet called "Clients 2024"
+    if (normalizedSheetName.includes(type.slice(0, -1))) {
+      score += 0.1;
+    }
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestType = type;
+    }
+  });
+
+  return bestScore >= DETECTION_THRESHOLD ? bestType : null;
+}
+
+export async function parseWorkbook(file: File): Promise<WorkbookSheet[]> {
+  const buffer = await file.arrayBuffer();
+  const workbook = XLSX.read(buffer, { type: 'array' });
+
+  return workbook.SheetNames.map(sheetName => {
+    const sheet = workbook.Sheets[sheetName];
+    const headerRow = XLSX.utils.sheet_to_json<any[]>(sheet, { header: 1, blankrows: false })[0] || [];
+    const headers = headerRow
+      .map(h => (h === null || h === undefined ? '' : String(h).trim()))
+      .filter(Boolean);
+    const rows = XLSX.utils.sheet_to_json<DataRow>(sheet, { defval: '', blankrows: false });
+
+    return {
+      sheetName,
+      entityType: detectEntityType(headers, sheetName),
+      headers,
+      rows
+    };
+  }).filter(sheet => sheet.headers.length > 0 && sheet.rows.length > 0);
+}
@@ -0,0 +1,38 @@
+// app/workers/csvParser.worker.ts
+import Papa from 'papaparse';
+import type { CsvParseRequest, CsvParseMessage } from '@/app/utils/csvStream';
+
+// Bytes read per chunk; each chunk becomes one batch posted to the main thread
+const CHUNK_SIZE = 512 * 1024;
+
+const post = (message: CsvParseMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<CsvParseRequest>) => {
+  const { file, delimiter, encoding } = event.data;
+  let headers: string[] = [];
+
+  Papa.parse(file, {
+    header: true,
+    dynamicTyping: true,
+    skipEmptyLines: true,
+    // Empty values fall back to Papa's own detection
+    delimiter: delimiter || '',
+    encoding: encoding || '',
+    chunkSize: CHUNK_SIZE,
+    chunk: (results) => {
+      if (headers.length === 0) headers = results.meta.fields || [];
+      post({
+        type: 'batch',
+        headers,
+        rows: results.data as any[],
+        progress: file.size > 0 ? Math.min(1, results.meta.cursor / file.size) : 1
+      });
+    },
+    complete: () => {
+      post({ type: 'complete', headers });
+    },
+    error: (error) => {
+      post({ type: 'error', message: error.message });
+    }
+  });
+};
@@ -0,0 +1,110 @@
+'use client';
+
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  ShieldCheck,
+  Check,
+  XCircle
+} from 'lucide-react';
+import { ValidationError } from '@/app/utils/validations';
+import { Severity } from '@/app/utils/suppressions';
+
+export type AcknowledgeScope = 'entity' | 'code' | 'severity';
+
+interface AcknowledgeDialogProps {
+  error: ValidationError;
+  // The record or rule the error is on, e.g. "C3" or 'rule "Night shift"'; without one only
+  // code-wide choices are offered
+  target?: string;
+  onConfirm: (scope: AcknowledgeScope, note: string, severity: Severity) => void;
+  onCancel: () => void;
+}
+
+const AcknowledgeDialog: React.FC<AcknowledgeDialogProps> = ({ error, target, onConfirm, onCancel }) => {
+  const [scope, setScope] = useState<AcknowledgeScope>(target ? 'entity' : 'code');
+  const [severity, setSeverity] = useState<Severity>(error.type === 'error' ? 'warning' : 'error');
+  const [note, setNote] = useState('');
+
+  const options: { value: AcknowledgeScope; label: string }[] = [
+    ...(target ? [{ value: 'entity' as const, label: `Acknowledge this ${error.code} on ${target}` }] : []),
+    { value: 'code', label: `Acknowledge every ${error.code}` },
+    { value: 'severity', label: `Report every ${error.code} as` }
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/40 backdrop-blur-sm p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="w-full max-w-lg flex flex-col rounded-2xl bg-white shadow-xl border border-gray-200/50"
+      >
+        <div className="p-6 border-b border-gray-200/50">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-br from-blue-500/10 to-purple-500/10 rounded-xl">
+              <ShieldCheck className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h3 className="font-semibold text-gray-800">Acknowledge issue</h3>
+              <p className="text-sm text-gray-600 mt-0.5">{error.message}</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-3">
+          {options.map(option => (
+            <label key={option.value} className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={scope === option.value}
+                onChange={() => setScope(option.value)}
+                className="border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-sm text-gray-700">{option.label}</span>
+              {option.value === 'severity' && (
+                <select
+                  value={severity}
+                  onChange={(e) => {
+                    setScope('severity');
+                    setSeverity(e.target.value as Severity);
+                  }}
+                  className="px-2 py-1 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                >
+                  <option value="error">error</option>
+                  <option value="warning">warning</option>
+                </select>
+              )}
+            </label>
+          ))}
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={3}
+            placeholder="Why is this expected? (required)"
+            className="w-full px-4 py-3 border border-gray-200/50 rounded-xl bg-white/50 focus:bg-white focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all duration-200 text-sm"
+          />
+        </div>
+
+        <div className="p-6 border-t border-gray-200/50 flex gap-3 justify-end">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors flex items-center gap-2"
+          >
+            <XCircle className="w-4 h-4" />
+            <span className="text-sm">Cancel</span>
+          </button>
+          <button
+            onClick={() => onConfirm(scope, note, severity)}
+            disabled={!note.trim()}
+            className="px-4 py-2 bg-gradient-to-r from-green-500 to-emerald-600 text-white rounded-lg hover:from-green-600 hover:to-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-sm hover:shadow-md flex items-center gap-2"
+          >
+            <Check className="w-4 h-4" />
+            <span className="text-sm font-medium">Save</span>
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default AcknowledgeDialog;
@@ -0,0 +1,100 @@
+'use client';
+
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  ShieldCheck,
+  RotateCcw,
+  ChevronDown,
+  ChevronUp
+} from 'lucide-react';
+import { ErrorCode } from '@/app/utils/validations';
+import { ValidationPolicy, AcknowledgedError } from '@/app/utils/suppressions';
+
+interface AcknowledgedIssuesPanelProps {
+  policy: ValidationPolicy;
+  acknowledged: AcknowledgedError[];
+  onRemoveSuppression: (id: string) => void;
+  onRemoveOverride: (code: ErrorCode) => void;
+}
+
+const AcknowledgedIssuesPanel: React.FC<AcknowledgedIssuesPanelProps> = ({ policy, acknowledged, onRemoveSuppression, onRemoveOverride }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const overrides = Object.entries(policy.severityOverrides) as [ErrorCode, { severity: string; note: string }][];
+
+  if (policy.suppressions.length === 0 && overrides.length === 0) return null;
+
+  const restoreButton = (onClick: () => void, title: string) => (
+    <button
+      onClick={onClick}
+      className="ml-auto p-1.5 text-gray-400 hover:text-blue-600 transition-colors flex-shrink-0"
+      title={title}
+    >
+      <RotateCcw className="w-4 h-4" />
+    </button>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mb-6 rounded-2xl bg-white/70 backdrop-blur-sm border border-gray-200/50 shadow-sm p-6"
+    >
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-gradient-to-br from-blue-500/10 to-purple-500/10 rounded-xl">
+          <ShieldCheck className="w-5 h-5 text-blue-600" />
+        </div>
+        <div>
+          <h3 className="font-semibold text-gray-800">Acknowledged ({acknowledged.length})</h3>
+          <p className="text-sm text-gray-600 mt-0.5">
+            {policy.suppressions.length} acknowledgements • {overrides.length} severity overrides • not counted as open issues
+          </p>
+        </div>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="ml-auto px-3 py-1.5 text-xs font-medium text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-1.5"
+        >
+          {isExpanded ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+          {isExpanded ? 'Hide' : 'Show'}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="mt-4 space-y-2">
+          {policy.suppressions.map(suppression => {
+            const matches = acknowledged.filter(a => a.suppression.id === suppression.id);
+            return (
+              <div key={suppression.id} className="p-3 rounded-lg border bg-white border-gray-200">
+                <div className="flex items-start gap-2">
+                  <div>
+                    <p className="text-sm font-medium text-gray-800">
+                      {suppression.entityId
+                        ? `${suppression.code} on ${suppression.entityId}`
+                        : suppression.ruleId ? `${suppression.code} on rule "${suppression.ruleName}"` : `Every ${suppression.code}`}
+                    </p>
+                    <p className="text-xs text-gray-500 italic">{suppression.note}</p>
+                  </div>
+                  {restoreButton(() => onRemoveSuppression(suppression.id), 'Stop acknowledging')}
+                </div>
+                {matches.map((match, index) => (
+                  <p key={index} className="mt-1 text-xs text-gray-600">{match.error.message}</p>
+                ))}
+              </div>
+            );
+          })}
+          {overrides.map(([code, override]) => (
+            <div key={code} className="p-3 rounded-lg border bg-white border-gray-200 flex items-start gap-2">
+              <div>
+                <p className="text-sm font-medium text-gray-800">Every {code} reported as {override.severity}</p>
+                <p className="text-xs text-gray-500 italic">{override.note}</p>
+              </div>
+              {restoreButton(() => onRemoveOverride(code), 'Restore default severity')}
+            </div>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default AcknowledgedIssuesPanel;
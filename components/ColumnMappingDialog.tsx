@@ -0,0 +1,187 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import {
+  Columns3,
+  AlertTriangle,
+  Check,
+  XCircle,
+  Sparkles,
+  Save
+} from 'lucide-react';
+import {
+  ColumnMatch,
+  MIN_CONFIDENCE,
+  getMissingColumns
+} from '@/app/utils/columnMapping';
+import { DataRow, REQUIRED_COLUMNS } from '@/app/utils/validations';
+
+interface ColumnMappingDialogProps {
+  entityType: 'clients' | 'workers' | 'tasks';
+  sourceName?: string;
+  matches: ColumnMatch[];
+  sampleRows: DataRow[];
+  onConfirm: (matches: ColumnMatch[], profileName?: string) => void;
+  onCancel: () => void;
+}
+
+const confidenceClassName = (match: ColumnMatch) => {
+  if (!match.target) return 'bg-gray-100 text-gray-600';
+  if (match.source === 'manual' || match.source === 'profile' || match.confidence >= 0.9) return 'bg-green-100 text-green-700';
+  if (match.confidence >= MIN_CONFIDENCE) return 'bg-blue-100 text-blue-700';
+  return 'bg-amber-100 text-amber-700';
+};
+
+const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({
+  entityType,
+  sourceName,
+  matches,
+  sampleRows,
+  onConfirm,
+  onCancel
+}) => {
+  const [draft, setDraft] = useState<ColumnMatch[]>(matches);
+  const [saveProfile, setSaveProfile] = useState(false);
+  const [profileName, setProfileName] = useState(sourceName || '');
+
+  useEffect(() => {
+    setDraft(matches);
+  }, [matches]);
+
+  const expectedColumns = REQUIRED_COLUMNS[entityType];
+  const missingColumns = getMissingColumns(draft, entityType);
+
+  const updateTarget = (header: string, target: string) => {
+    setDraft(prev => prev.map(match => {
+      if (match.header === header) {
+        return { ...match, target: target || null, confidence: target ? 1 : 0, source: target ? 'manual' : 'none' };
+      }
+      // A column can only be claimed once, so release it from whichever header held it
+      if (target && match.target === target) {
+        return { ...match, target: null, confidence: 0, source: 'none' };
+      }
+      return match;
+    }));
+  };
+
+  const formatSample = (header: string) => {
+    const value = sampleRows.find(row => row[header] !== undefined && row[header] !== '')?.[header];
+    if (value === undefined || value === null) return '';
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return text.length > 40 ? `${text.slice(0, 40)}...` : text;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/40 backdrop-blur-sm p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="w-full max-w-3xl max-h-[85vh] flex flex-col rounded-2xl bg-white shadow-xl border border-gray-200/50"
+      >
+        <div className="p-6 border-b border-gray-200/50">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-br from-blue-500/10 to-purple-500/10 rounded-xl">
+              <Columns3 className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h3 className="font-semibold text-gray-800">Review Column Mapping</h3>
+              <p className="text-sm text-gray-600 mt-0.5">
+                {sourceName ? `${sourceName} → ` : ''}{entityType} • {draft.length} columns detected
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          <table className="min-w-full">
+            <thead>
+              <tr className="border-b border-gray-200/50">
+                <th className="py-2 pr-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">File column</th>
+                <th className="py-2 pr-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sample</th>
+                <th className="py-2 pr-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Maps to</th>
+                <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Confidence</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200/30">
+              {draft.map(match => (
+                <tr key={match.header}>
+                  <td className="py-2 pr-4 text-sm font-medium text-gray-800">{match.header}</td>
+                  <td className="py-2 pr-4 text-xs text-gray-500 font-mono">{formatSample(match.header)}</td>
+                  <td className="py-2 pr-4">
+                    <select
+                      value={match.target || ''}
+                      onChange={(e) => updateTarget(match.header, e.target.value)}
+                      className="w-full px-3 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                    >
+                      <option value="">Keep as "{match.header}"</option>
+                      {expectedColumns.map(col => (
+                        <option key={col} value={col}>{col}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-2">
+                    <span className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full ${confidenceClassName(match)}`}>
+                      {match.source === 'ai' && <Sparkles className="w-3 h-3" />}
+                      {match.target
+                        ? match.source === 'manual' ? 'Manual'
+                          : match.source === 'profile' ? 'Profile'
+                          : `${Math.round(match.confidence * 100)}%`
+                        : 'Unmapped'}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {missingColumns.length > 0 && (
+            <div className="mt-4 p-3 rounded-lg text-sm flex items-start gap-2 bg-amber-50 text-amber-700 border border-amber-200/50">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <span>Required columns not mapped: {missingColumns.join(', ')}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-200/50 flex items-center gap-3 justify-end">
+          <label className="flex items-center gap-2 mr-auto">
+            <input
+              type="checkbox"
+              checked={saveProfile}
+              onChange={(e) => setSaveProfile(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <Save className="w-4 h-4 text-gray-500" />
+            <span className="text-sm text-gray-700">Save as profile</span>
+            {saveProfile && (
+              <input
+                type="text"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                placeholder="Profile name"
+                className="ml-1 px-3 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+              />
+            )}
+          </label>
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors flex items-center gap-2"
+          >
+            <XCircle className="w-4 h-4" />
+            <span className="text-sm">Cancel Import</span>
+          </button>
+          <button
+            onClick={() => onConfirm(draft, saveProfile && profileName.trim() ? profileName.trim() : undefined)}
+            disabled={saveProfile && !profileName.trim()}
+            className="px-4 py-2 bg-gradient-to-r from-green-500 to-emerald-600 text-white rounded-lg hover:from-green-600 hover:to-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-sm hover:shadow-md flex items-center gap-2"
+          >
+            <Check className="w-4 h-4" />
+            <span className="text-sm font-medium">Confirm Mapping</span>
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default ColumnMappingDialog;
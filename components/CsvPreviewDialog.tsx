@@ -0,0 +1,155 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import {
+  FileText,
+  AlertTriangle,
+  Check,
+  XCircle
+} from 'lucide-react';
+import {
+  CsvFormat,
+  CsvDelimiter,
+  DELIMITERS,
+  ENCODINGS,
+  buildCsvPreview
+} from '@/app/utils/csvDetection';
+
+interface CsvPreviewDialogProps {
+  fileName: string;
+  entityType: 'clients' | 'workers' | 'tasks';
+  sample: Uint8Array;
+  detectedFormat: CsvFormat;
+  onConfirm: (format: CsvFormat) => void;
+  onCancel: () => void;
+}
+
+const CsvPreviewDialog: React.FC<CsvPreviewDialogProps> = ({
+  fileName,
+  entityType,
+  sample,
+  detectedFormat,
+  onConfirm,
+  onCancel
+}) => {
+  const [format, setFormat] = useState<CsvFormat>(detectedFormat);
+
+  const preview = useMemo(() => {
+    try {
+      return buildCsvPreview(sample, format);
+    } catch (error) {
+      console.error('Failed to build CSV preview:', error);
+      return { headers: [], rows: [] };
+    }
+  }, [sample, format]);
+
+  // A single column almost always means the delimiter is wrong
+  const looksMisparsed = preview.headers.length <= 1;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/40 backdrop-blur-sm p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="w-full max-w-4xl max-h-[85vh] flex flex-col rounded-2xl bg-white shadow-xl border border-gray-200/50"
+      >
+        <div className="p-6 border-b border-gray-200/50">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-br from-blue-500/10 to-purple-500/10 rounded-xl">
+              <FileText className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h3 className="font-semibold text-gray-800">Preview Import</h3>
+              <p className="text-sm text-gray-600 mt-0.5">
+                {fileName} → {entityType}
+                {detectedFormat.hasBom && ' • byte order mark removed'}
+              </p>
+            </div>
+          </div>
+
+          <div className="mt-4 grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Delimiter</label>
+              <select
+                value={format.delimiter}
+                onChange={(e) => setFormat({ ...format, delimiter: e.target.value as CsvDelimiter })}
+                className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+              >
+                {DELIMITERS.map(d => (
+                  <option key={d.label} value={d.value}>
+                    {d.label}{d.value === detectedFormat.delimiter ? ' (detected)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Encoding</label>
+              <select
+                value={format.encoding}
+                onChange={(e) => setFormat({ ...format, encoding: e.target.value })}
+                className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+              >
+                {ENCODINGS.map(enc => (
+                  <option key={enc.value} value={enc.value}>
+                    {enc.label}{enc.value === detectedFormat.encoding ? ' (detected)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6">
+          {looksMisparsed && (
+            <div className="mb-4 p-3 rounded-lg text-sm flex items-start gap-2 bg-amber-50 text-amber-700 border border-amber-200/50">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <span>Only one column was found. Try a different delimiter.</span>
+            </div>
+          )}
+          <table className="min-w-full">
+            <thead>
+              <tr className="border-b border-gray-200/50 bg-gray-50/30">
+                {preview.headers.map((header, idx) => (
+                  <th key={idx} className="px-3 py-2 text-left text-xs font-medium text-gray-700 uppercase tracking-wider whitespace-nowrap">
+                    {header}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200/30">
+              {preview.rows.map((row, rowIdx) => (
+                <tr key={rowIdx}>
+                  {preview.headers.map((_, colIdx) => (
+                    <td key={colIdx} className="px-3 py-2 text-xs text-gray-700 font-mono whitespace-nowrap">
+                      {row[colIdx] ?? ''}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-6 border-t border-gray-200/50 flex gap-3 justify-end">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors flex items-center gap-2"
+          >
+            <XCircle className="w-4 h-4" />
+            <span className="text-sm">Cancel Import</span>
+          </button>
+          <button
+            onClick={() => onConfirm(format)}
+            className="px-4 py-2 bg-gradient-to-r from-green-500 to-emerald-600 text-white rounded-lg hover:from-green-600 hover:to-emerald-700 transition-all duration-200 shadow-sm hover:shadow-md flex items-center gap-2"
+          >
+            <Check className="w-4 h-4" />
+            <span className="text-sm font-medium">Continue</span>
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default CsvPreviewDialog;
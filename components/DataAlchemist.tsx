@@ -1,9 +1,58 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
-import Papa from 'papaparse';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { geminiService } from '@/app/services/gemini';
-import { validator, ValidationError, DataRow } from '@/app/utils/validations';
+import { validator, ValidationError, DataRow, REQUIRED_COLUMNS } from '@/app/utils/validations';
+import { ENTITY_TYPES, normalizeAll, toCleanedCsv } from '@/app/utils/entities';
+import { ENTITY_SCHEMAS, describeColumn } from '@/app/utils/schema';
+import { loadMaxPhase, saveMaxPhase } from '@/app/utils/phases';
+import {
+  SkillDefinition,
+  DEFAULT_SKILL_TAXONOMY,
+  buildSkillIndex,
+  normalizeSkillCells,
+  loadSkillTaxonomy,
+  saveSkillTaxonomy
+} from '@/app/utils/skills';
+import { isWorkbookFile, parseWorkbook, WorkbookSheet } from '@/app/utils/workbook';
+import { isJsonFile, parseJsonEntities } from '@/app/utils/jsonImport';
+import { parseCsvInWorker, CsvParseHandle, CsvParseProgress } from '@/app/utils/csvStream';
+import { CsvFormat, readFileSample, detectCsvFormat } from '@/app/utils/csvDetection';
+import { parsePastedTable } from '@/app/utils/pasteImport';
+import { readProjectBundle } from '@/app/utils/projectBundle';
+import { CoRunCluster } from '@/app/utils/feasibility';
+import { withRowIds, getRowId, findRowIndex } from '@/app/utils/rowIdentity';
+import { AutoFix, getAutoFix, applyAutoFix, applyAllAutoFixes } from '@/app/utils/autoFix';
+import {
+  ValidationPolicy,
+  ReviewedErrors,
+  Severity,
+  SuppressionTarget,
+  EMPTY_POLICY,
+  applyValidationPolicy,
+  createSuppression,
+  getErrorEntityId,
+  loadValidationPolicy,
+  saveValidationPolicy
+} from '@/app/utils/suppressions';
+import { MergeMode, MERGE_MODES, RowChange, diffRows, applyChanges } from '@/app/utils/mergeData';
+import {
+  ColumnMatch,
+  mapColumnsLocally,
+  getUnresolvedHeaders,
+  getMissingColumns,
+  mergeAiMapping,
+  applyColumnMapping
+} from '@/app/utils/columnMapping';
+import {
+  MappingProfile,
+  loadProfiles,
+  saveProfiles,
+  findProfile,
+  upsertProfile,
+  profileToMatches,
+  mergeProfiles
+} from '@/app/utils/mappingProfiles';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Upload, 
@@ -26,9 +75,24 @@ import {
   Edit3,
   Check,
   XCircle,
+  ClipboardPaste,
+  FolderOpen,
+  Calendar,
+  Wand2,
+  ShieldCheck,
+  FileText,
 } from 'lucide-react';
 import RulesBuilder from '@/components/RulesBuilder';
 import PrioritizationWeights from '@/components/PrioritizationWeight';
+import ColumnMappingDialog from '@/components/ColumnMappingDialog';
+import CsvPreviewDialog from '@/components/CsvPreviewDialog';
+import MergeReviewDialog from '@/components/MergeReviewDialog';
+import PasteDataDialog from '@/components/PasteDataDialog';
+import MappingProfilesPanel from '@/components/MappingProfilesPanel';
+import SkillTaxonomyPanel from '@/components/SkillTaxonomyPanel';
+import { ReportFormat, buildValidationReport, formatReport } from '@/app/utils/validationReport';
+import AcknowledgeDialog, { AcknowledgeScope } from '@/components/AcknowledgeDialog';
+import AcknowledgedIssuesPanel from '@/components/AcknowledgedIssuesPanel';
 import { Rule, PrioritizationWeights as Weights, DEFAULT_WEIGHTS } from '@/app/utils/rules';
 
 interface DataState {
@@ -43,14 +107,16 @@ interface ErrorState {
   tasks: ValidationError[];
 }
 
+// Row identities of the matches, so highlights follow rows that move
 interface SearchResults {
-  clients: number[];
-  workers: number[];
-  tasks: number[];
+  clients: string[];
+  workers: string[];
+  tasks: string[];
 }
 
 interface FixSuggestion {
   errorIndex: number;
+  rowId?: string;
   fix: {
     description: string;
     field: string;
@@ -77,12 +143,39 @@ interface ModificationPreview {
 
 type DataType = 'clients' | 'workers' | 'tasks';
 
+const sameErrors = (a: ValidationError[], b: ValidationError[]) =>
+  a.length === b.length && a.every((e, i) => e.message === b[i].message && e.rowId === b[i].rowId && e.field === b[i].field);
+
+interface PendingCsv {
+  file: File;
+  type: DataType;
+  sample: Uint8Array;
+  format: CsvFormat;
+}
+
+interface PendingMerge {
+  type: DataType;
+  mode: MergeMode;
+  changes: RowChange[];
+}
+
+interface PendingImport {
+  type: DataType;
+  rows: DataRow[];
+  matches: ColumnMatch[];
+  sourceName?: string;
+}
+
 const DataAlchemist: React.FC = () => {
   const [data, setData] = useState<DataState>({
     clients: [],
     workers: [],
     tasks: []
   });
+  // The data as last committed. A handler that commits several entities (e.g. a workbook with a
+  // sheet per entity) reads it to validate each one against the others it has just committed,
+  // which `data` only shows after the next render.
+  const dataRef = useRef(data);
   
   const [errors, setErrors] = useState<ErrorState>({
     clients: [],
@@ -105,7 +198,25 @@ const DataAlchemist: React.FC = () => {
     tasks: []
   });
   const [uploadingType, setUploadingType] = useState<DataType | null>(null);
+  const [isImportingProject, setIsImportingProject] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<CsvParseProgress | null>(null);
+  const parseHandleRef = useRef<CsvParseHandle | null>(null);
   const [isGeneratingFixes, setIsGeneratingFixes] = useState(false);
+  const [pendingCsv, setPendingCsv] = useState<PendingCsv | null>(null);
+  const [pastingType, setPastingType] = useState<DataType | null>(null);
+  const [pendingImports, setPendingImports] = useState<PendingImport[]>([]);
+  const [pendingMerges, setPendingMerges] = useState<PendingMerge[]>([]);
+  const [uploadModes, setUploadModes] = useState<Record<DataType, MergeMode>>({
+    clients: 'replace',
+    workers: 'replace',
+    tasks: 'replace'
+  });
+  const [mappingProfiles, setMappingProfiles] = useState<MappingProfile[]>([]);
+  const [appliedProfiles, setAppliedProfiles] = useState<Record<DataType, string | null>>({
+    clients: null,
+    workers: null,
+    tasks: null
+  });
   
   // Natural Language Data Modification states
   const [modificationQuery, setModificationQuery] = useState('');
@@ -118,11 +229,51 @@ const DataAlchemist: React.FC = () => {
   const [rules, setRules] = useState<Rule[]>([]);
   const [weights, setWeights] = useState<Weights>(DEFAULT_WEIGHTS);
   const [ruleErrors, setRuleErrors] = useState<ValidationError[]>([]);
+  const [validationPolicy, setValidationPolicy] = useState<ValidationPolicy>(EMPTY_POLICY);
+  // The issue being acknowledged; type is unset for rule issues
+  const [acknowledging, setAcknowledging] = useState<{ type?: DataType; error: ValidationError } | null>(null);
+  const [coRunClusters, setCoRunClusters] = useState<CoRunCluster[]>([]);
+  const [maxPhase, setMaxPhase] = useState<number | null>(null);
+  const [skillTaxonomy, setSkillTaxonomy] = useState<SkillDefinition[]>(DEFAULT_SKILL_TAXONOMY);
   
   // AI Rule Recommendations (Milestone 3)
   const [ruleRecommendations, setRuleRecommendations] = useState<RuleRecommendation[]>([]);
   const [isGeneratingRecommendations, setIsGeneratingRecommendations] = useState(false);
 
+  // Typed model built once from the raw grid rows; index-aligned with data
+  const entities = useMemo(() => normalizeAll(data), [data]);
+
+  // Validation results with the project's severity overrides and acknowledgements applied.
+  // Only the active issues are shown, counted and offered fixes.
+  const reviewed = useMemo(() => {
+    const byType = {} as Record<DataType, ReviewedErrors>;
+    ENTITY_TYPES.forEach(type => {
+      byType[type] = applyValidationPolicy(validationPolicy, errors[type], type, data[type]);
+    });
+    return { ...byType, rules: applyValidationPolicy(validationPolicy, ruleErrors) };
+  }, [validationPolicy, errors, ruleErrors, data]);
+  
+  const activeErrors: ErrorState = {
+    clients: reviewed.clients.active,
+    workers: reviewed.workers.active,
+    tasks: reviewed.tasks.active
+  };
+  const activeRuleErrors = reviewed.rules.active;
+
+  // Built-in fixes available for the current tab's errors, applied in one go by "Fix all"
+  const autoFixAll = useMemo(
+    () => applyAllAutoFixes(activeTab, activeErrors[activeTab], data[activeTab]),
+    [activeTab, reviewed, data]
+  );
+
+  // Mapping profiles, the max phase and the skill taxonomy live in localStorage, which is only available after mount
+  useEffect(() => {
+    setMappingProfiles(loadProfiles());
+    setMaxPhase(loadMaxPhase());
+    setSkillTaxonomy(loadSkillTaxonomy());
+    setValidationPolicy(loadValidationPolicy());
+  }, []);
+
   // Update validator data whenever data changes
   useEffect(() => {
     validator.setData('clients', data.clients);
@@ -136,17 +287,41 @@ const DataAlchemist: React.FC = () => {
     }
   }, [data]);
 
-  // Validate rules whenever rules change
+  // Changing the max phase re-checks every phase list already loaded
+  useEffect(() => {
+    validator.setMaxPhase(maxPhase);
+    if (Object.values(data).some(rows => rows.length > 0)) {
+      revalidate(ENTITY_TYPES, data);
+    }
+  }, [maxPhase]);
+
+  // Skill matching only affects the task checks
+  useEffect(() => {
+    validator.setSkillTaxonomy(skillTaxonomy);
+    if (data.tasks.length > 0) revalidate(['tasks'], data);
+  }, [skillTaxonomy]);
+
+  // Validate rules whenever rules, the max phase or the data they reference change
   useEffect(() => {
     validator.setRules(rules);
     const ruleValidationErrors = validator.validateRules(rules);
     setRuleErrors(ruleValidationErrors);
-  }, [rules]);
+    setCoRunClusters(validator.getCoRunClusters(rules));
+  }, [rules, maxPhase, data, skillTaxonomy]);
+
+  // Phase-window rules limit where tasks can run and load limits cap worker slots, which the task
+  // duration and capacity checks read
+  const taskRulesKey = JSON.stringify(rules.filter(r => r.enabled).map(r =>
+    r.type === 'phaseWindow' ? [r.taskId, r.allowedPhases] : r.type === 'loadLimit' ? [r.workerGroup, r.maxSlotsPerPhase] : null
+  ).filter(Boolean));
+  useEffect(() => {
+    if (data.tasks.length > 0) revalidate(['tasks'], data);
+  }, [taskRulesKey]);
 
   const generateRuleRecommendations = async () => {
     setIsGeneratingRecommendations(true);
     try {
-      const recommendations = await geminiService.generateRuleRecommendations(data);
+      const recommendations = await geminiService.generateRuleRecommendations(entities);
       setRuleRecommendations(recommendations);
     } catch (error) {
       console.error('Failed to generate rule recommendations:', error);
@@ -160,65 +335,350 @@ const DataAlchemist: React.FC = () => {
     if (!file) return;
     
     setUploadingType(type);
+
+    if (isWorkbookFile(file) || isJsonFile(file)) {
+      try {
+        const sheets = isWorkbookFile(file)
+          ? await parseWorkbook(file)
+          : parseJsonEntities(await file.text(), file.name);
+        await importSheets(file.name, sheets, type);
+      } catch (error) {
+        console.error('Error reading file:', error);
+        alert(`Failed to read ${file.name}. Please check the file format.`);
+      } finally {
+        setUploadingType(null);
+        e.target.value = '';
+      }
+      return;
+    }
+    
+    // CSVs are sniffed for delimiter and encoding, then previewed before anything is parsed
+    try {
+      const sample = await readFileSample(file);
+      setPendingCsv({ file, type, sample, format: detectCsvFormat(sample) });
+    } catch (error) {
+      console.error('Error reading CSV:', error);
+      alert(`Failed to read ${file.name}.`);
+    } finally {
+      setUploadingType(null);
+      e.target.value = '';
+    }
+  };
+
+  const confirmCsvImport = async (format: CsvFormat) => {
+    if (!pendingCsv) return;
+    const { file, type } = pendingCsv;
+    setPendingCsv(null);
+    setUploadingType(type);
     
-    Papa.parse(file, {
-      header: true,
-      dynamicTyping: true,
-      skipEmptyLines: true,
-      complete: async (results) => {
-        try {
-          // AI-powered column mapping
-          const headers = results.meta.fields || [];
-          const columnMapping = await geminiService.mapColumns(headers, type);
-          
-          // Apply column mapping
-          const mappedData = results.data.map((row: any) => {
-            const mappedRow: DataRow = {};
-            Object.entries(row).forEach(([key, value]) => {
-              const mappedKey = columnMapping[key] || key;
-              if (mappedKey && mappedKey !== 'null') {
-                mappedRow[mappedKey] = value;
-              }
-            });
-            return mappedRow;
-          });
-          
-          // Update data
-          setData(prev => ({
-            ...prev,
-            [type]: mappedData
-          }));
-          
-          // Run validation
-          await runValidation(type, mappedData);
-        } catch (error) {
-          console.error('Error processing file:', error);
-          // Fallback to original data if AI mapping fails
-          setData(prev => ({
-            ...prev,
-            [type]: results.data as DataRow[]
-          }));
-          await runValidation(type, results.data as DataRow[]);
-        } finally {
-          setUploadingType(null);
-        }
+    const handle = parseCsvInWorker(file, { delimiter: format.delimiter, encoding: format.encoding }, setUploadProgress);
+    parseHandleRef.current = handle;
+    
+    try {
+      const result = await handle.promise;
+      if (result) {
+        await importRows(type, result.headers, result.rows, file.name);
       }
+    } catch (error) {
+      console.error('Error parsing CSV:', error);
+      alert('Failed to parse CSV file.');
+    } finally {
+      parseHandleRef.current = null;
+      setUploadProgress(null);
+      setUploadingType(null);
+    }
+  };
+
+  // Pasted rows with headers go through the same mapping pipeline as a file. Headerless rows are
+  // laid out under the tab's current columns and always appended.
+  const confirmPaste = async (text: string, hasHeaders: boolean) => {
+    const type = pastingType;
+    if (!type) return;
+    setPastingType(null);
+
+    try {
+      const { headers, rows } = parsePastedTable(text, hasHeaders, getEntityColumns(type));
+      if (rows.length === 0) return;
+      if (hasHeaders) {
+        await importRows(type, headers, rows, 'Pasted data');
+      } else {
+        await commitImport(type, rows, 'append');
+      }
+    } catch (error) {
+      console.error('Error parsing pasted data:', error);
+      alert('Failed to parse the pasted data.');
+    }
+  };
+
+  const getEntityColumns = (type: DataType) =>
+    data[type].length > 0 ? Object.keys(data[type][0]) : REQUIRED_COLUMNS[type];
+
+  // Restores a previous export: the three cleaned CSVs and rules.json, picked together or zipped.
+  // Entity tabs present in the bundle are replaced outright; tabs it doesn't cover are left as they are.
+  const handleProjectImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    if (Object.values(data).some(rows => rows.length > 0) || rules.length > 0) {
+      if (!confirm('Opening a project replaces the current data, rules and weights it contains. Continue?')) return;
+    }
+
+    setIsImportingProject(true);
+    try {
+      const bundle = await readProjectBundle(files);
+      const loadedTypes = (['clients', 'workers', 'tasks'] as DataType[]).filter(type => bundle.data[type]);
+
+      if (loadedTypes.length === 0 && !bundle.rules) {
+        alert('No exported data files or rules.json were found.');
+        return;
+      }
+
+      const nextData = { ...dataRef.current };
+      loadedTypes.forEach(type => {
+        nextData[type] = withRowIds(bundle.data[type]!);
+      });
+      dataRef.current = nextData;
+      setData(nextData);
+
+      await revalidate(loadedTypes, nextData);
+
+      if (bundle.rules) setRules(bundle.rules);
+      if (bundle.weights) setWeights(bundle.weights);
+      if (bundle.maxPhase !== undefined) updateMaxPhase(String(bundle.maxPhase ?? ''));
+      if (bundle.validationPolicy) updateValidationPolicy(bundle.validationPolicy);
+
+      if (bundle.skippedFiles.length > 0) {
+        alert(`Skipped files that are not part of an export: ${bundle.skippedFiles.join(', ')}`);
+      }
+    } catch (error) {
+      console.error('Error opening project:', error);
+      alert(`Failed to open project: ${error instanceof Error ? error.message : 'unknown error'}`);
+    } finally {
+      setIsImportingProject(false);
+    }
+  };
+
+  const cancelUpload = () => {
+    parseHandleRef.current?.cancel();
+  };
+
+  // Each sheet (or JSON entity array) is classified by its headers; a single unrecognised one
+  // falls back to the card it was dropped on
+  const importSheets = async (fileName: string, sheets: WorkbookSheet[], fallbackType: DataType) => {
+    sheets = sheets.filter(sheet => sheet.rows.length > 0);
+    if (sheets.length === 1 && !sheets[0].entityType) {
+      sheets[0].entityType = fallbackType;
+    }
+
+    const skippedSheets: string[] = [];
+    const importedTypes = new Set<DataType>();
+
+    for (const sheet of sheets) {
+      if (!sheet.entityType || importedTypes.has(sheet.entityType)) {
+        skippedSheets.push(sheet.sheetName);
+        continue;
+      }
+      importedTypes.add(sheet.entityType);
+      const sourceName = sheet.sheetName === fileName ? fileName : `${fileName} / ${sheet.sheetName}`;
+      await importRows(sheet.entityType, sheet.headers, sheet.rows, sourceName);
+    }
+
+    if (skippedSheets.length > 0) {
+      alert(`Skipped sections that could not be matched to clients, workers or tasks: ${skippedSheets.join(', ')}`);
+    }
+  };
+
+  // A saved profile for this exact header layout is applied straight away. Otherwise headers are
+  // mapped locally first, Gemini is only consulted for what the local mapper can't resolve, and the
+  // result is queued for review so nothing is committed until the user confirms it.
+  const importRows = async (type: DataType, headers: string[], rows: DataRow[], sourceName?: string) => {
+    const profile = findProfile(mappingProfiles, headers, type);
+    if (profile) {
+      setAppliedProfiles(prev => ({ ...prev, [type]: profile.name }));
+      await commitImport(type, applyColumnMapping(rows, profileToMatches(profile, headers)));
+      return;
+    }
+
+    let matches = mapColumnsLocally(headers, type);
+    
+    const unresolvedHeaders = getUnresolvedHeaders(matches);
+    const missingColumns = getMissingColumns(matches, type);
+    if (unresolvedHeaders.length > 0 && missingColumns.length > 0) {
+      try {
+        const aiMapping = await geminiService.mapColumns(unresolvedHeaders, type, missingColumns);
+        matches = mergeAiMapping(matches, aiMapping, type);
+      } catch (error) {
+        console.error('AI column mapping failed, using local mapping only:', error);
+      }
+    }
+    
+    setPendingImports(prev => [...prev, { type, rows, matches, sourceName }]);
+  };
+
+  // Into an empty tab the upload is committed as-is; otherwise the changes the chosen upload
+  // mode would make are listed for review first
+  const commitImport = async (type: DataType, mappedData: DataRow[], mode: MergeMode = uploadModes[type]) => {
+    mappedData = offerSkillNormalization(type, mappedData);
+    
+    const existing = dataRef.current[type];
+    if (existing.length > 0) {
+      setPendingMerges(prev => [...prev, { type, mode, changes: diffRows(type, existing, mappedData, mode) }]);
+      return;
+    }
+    
+    await replaceEntityData(type, mappedData);
+  };
+
+  // Skill cells written with aliases ("JS", "ML") can be rewritten to their canonical names on the way in
+  const offerSkillNormalization = (type: DataType, rows: DataRow[]): DataRow[] => {
+    const { rows: normalizedRows, changedCells, examples } = normalizeSkillCells(buildSkillIndex(skillTaxonomy), type, rows);
+    if (changedCells === 0) return rows;
+    
+    const preview = examples.slice(0, 5).join(', ') + (examples.length > 5 ? ', ...' : '');
+    return confirm(`${changedCells} skill cells use non-canonical names (${preview}). Normalise them using the skill taxonomy?`)
+      ? normalizedRows
+      : rows;
+  };
+
+  const updateSkillTaxonomy = (taxonomy: SkillDefinition[]) => {
+    setSkillTaxonomy(taxonomy);
+    saveSkillTaxonomy(taxonomy);
+  };
+
+  const updateValidationPolicy = (policy: ValidationPolicy) => {
+    setValidationPolicy(policy);
+    saveValidationPolicy(policy);
+  };
+
+  const confirmAcknowledge = (scope: AcknowledgeScope, note: string, severity: Severity) => {
+    if (!acknowledging) return;
+    const { type, error } = acknowledging;
+    setAcknowledging(null);
+
+    if (scope === 'severity') {
+      updateValidationPolicy({
+        ...validationPolicy,
+        severityOverrides: { ...validationPolicy.severityOverrides, [error.code]: { severity, note: note.trim() } }
+      });
+      return;
+    }
+
+    const target: SuppressionTarget = {};
+    if (scope === 'entity' && type) {
+      target.entityType = type;
+      target.entityId = getErrorEntityId(type, error, data[type]);
+    } else if (scope === 'entity') {
+      target.ruleId = error.ruleId;
+      target.ruleName = rules.find(rule => rule.id === error.ruleId)?.name;
+    }
+    updateValidationPolicy({
+      ...validationPolicy,
+      suppressions: [...validationPolicy.suppressions, createSuppression(error.code, note, target)]
     });
   };
 
-  const runValidation = async (type: DataType, dataToValidate: DataRow[]) => {
+  // What an error can be acknowledged on by itself: its record, or the rule it was found in
+  const acknowledgeTarget = ({ type, error }: { type?: DataType; error: ValidationError }): string | undefined => {
+    if (type) return getErrorEntityId(type, error, data[type]);
+    const rule = rules.find(r => r.id === error.ruleId);
+    return rule ? `rule "${rule.name}"` : undefined;
+  };
+
+  const removeSuppression = (id: string) => {
+    updateValidationPolicy({ ...validationPolicy, suppressions: validationPolicy.suppressions.filter(s => s.id !== id) });
+  };
+
+  const removeSeverityOverride = (code: ValidationError['code']) => {
+    const { [code]: _removed, ...severityOverrides } = validationPolicy.severityOverrides;
+    updateValidationPolicy({ ...validationPolicy, severityOverrides });
+  };
+
+  const replaceEntityData = async (type: DataType, newData: DataRow[]) => {
+    const rows = withRowIds(newData);
+    
+    // Update data
+    commitEntityData(type, rows);
+    
+    // Run validation
+    await runValidation(type, rows);
+  };
+
+  const commitEntityData = (type: DataType, rows: DataRow[]) => {
+    dataRef.current = { ...dataRef.current, [type]: rows };
+    setData(prev => ({
+      ...prev,
+      [type]: rows
+    }));
+  };
+
+  const confirmPendingMerge = async (acceptedKeys: Set<string>) => {
+    const pending = pendingMerges[0];
+    if (!pending) return;
+    const { type, changes } = pending;
+    setPendingMerges(prev => prev.slice(1));
+    const { rows, unmatched } = applyChanges(type, dataRef.current[type], changes, acceptedKeys);
+    await replaceEntityData(type, rows);
+    if (unmatched.length > 0) {
+      alert(`${unmatched.length} accepted changes were not applied because their rows are no longer there: ${unmatched.map(c => c.id || '(no ID)').join(', ')}`);
+    }
+  };
+
+  const confirmPendingImport = async (matches: ColumnMatch[], profileName?: string) => {
+    const pending = pendingImports[0];
+    if (!pending) return;
+    
+    setPendingImports(prev => prev.slice(1));
+    
+    if (profileName) {
+      updateMappingProfiles(upsertProfile(mappingProfiles, profileName, pending.type, matches));
+      setAppliedProfiles(prev => ({ ...prev, [pending.type]: profileName }));
+    } else {
+      setAppliedProfiles(prev => ({ ...prev, [pending.type]: null }));
+    }
+    
+    await commitImport(pending.type, applyColumnMapping(pending.rows, matches));
+  };
+
+  const cancelPendingImport = () => {
+    setPendingImports(prev => prev.slice(1));
+  };
+
+  const updateMaxPhase = (value: string) => {
+    const parsed = parseInt(value);
+    const next = parsed > 0 ? parsed : null;
+    setMaxPhase(next);
+    saveMaxPhase(next);
+  };
+
+  const updateMappingProfiles = (profiles: MappingProfile[]) => {
+    setMappingProfiles(profiles);
+    saveProfiles(profiles);
+  };
+
+  const runValidation = async (type: DataType, dataToValidate: DataRow[], snapshot: DataState = dataRef.current) => {
+    await revalidate([type], { ...snapshot, [type]: dataToValidate });
+  };
+
+  // Re-checks the changed entities and every entity whose checks depend on them. Fix suggestions are
+  // regenerated for the changed entities; a dependent whose errors shifted drops its stale suggestions,
+  // since they point at error positions that no longer exist.
+  const revalidate = async (changed: DataType[], snapshot: DataState) => {
     setIsValidating(true);
     try {
-      const validationErrors = validator.validateData(type, dataToValidate);
-      setErrors(prev => ({
-        ...prev,
-        [type]: validationErrors
-      }));
+      const results = validator.validateAffected(changed, snapshot);
+      setErrors(prev => ({ ...prev, ...results }));
       
-      // Generate fix suggestions if there are errors
-      if (validationErrors.length > 0) {
-        generateFixSuggestions(type, validationErrors, dataToValidate);
-      }
+      (Object.keys(results) as DataType[]).forEach(type => {
+        const validationErrors = results[type]!;
+        if (changed.includes(type)) {
+          if (validationErrors.length > 0) {
+            generateFixSuggestions(type, validationErrors, snapshot[type]);
+          }
+        } else if (!sameErrors(errors[type], validationErrors)) {
+          setFixSuggestions(prev => ({ ...prev, [type]: [] }));
+        }
+      });
     } catch (error) {
       console.error('Validation error:', error);
     } finally {
@@ -226,11 +686,20 @@ const DataAlchemist: React.FC = () => {
     }
   };
 
+  // Errors with a built-in fixer are fixed offline; only the rest are sent for AI suggestions
   const generateFixSuggestions = async (type: DataType, validationErrors: ValidationError[], dataToValidate: DataRow[]) => {
+    // Only errors the built-in fixers can't resolve are worth a request; some fixers give up on
+    // values they can't salvage, e.g. NOT_A_NUMBER text without digits
+    const unfixable = validationErrors.filter(e => getAutoFix(type, e, dataToValidate) === null);
+    if (unfixable.length === 0) {
+      setFixSuggestions(prev => ({ ...prev, [type]: [] }));
+      return;
+    }
+    
     setIsGeneratingFixes(true);
     try {
       const suggestions = await geminiService.suggestFixes(
-        validationErrors,
+        unfixable,
         dataToValidate,
         type
       );
@@ -245,17 +714,17 @@ const DataAlchemist: React.FC = () => {
     }
   };
 
-  const handleCellEdit = (type: DataType, rowIndex: number, column: string, value: string) => {
+  const handleCellEdit = (type: DataType, rowId: string, column: string, value: string) => {
+    const rowIndex = findRowIndex(data[type], rowId);
+    if (rowIndex < 0) return;
+    
     const newData = [...data[type]];
     newData[rowIndex] = {
       ...newData[rowIndex],
       [column]: value
     };
     
-    setData(prev => ({
-      ...prev,
-      [type]: newData
-    }));
+    commitEntityData(type, newData);
     
     // Re-run validation after edit
     runValidation(type, newData);
@@ -269,10 +738,10 @@ const DataAlchemist: React.FC = () => {
     
     setIsSearching(true);
     try {
-      const results = await geminiService.searchData(searchQuery, data[activeTab], activeTab);
+      const results = await geminiService.searchData(searchQuery, entities[activeTab], activeTab);
       setSearchResults(prev => ({
         ...prev,
-        [activeTab]: results
+        [activeTab]: results.map(index => getRowId(data[activeTab][index])).filter(Boolean)
       }));
     } catch (error) {
       console.error('Search error:', error);
@@ -337,13 +806,11 @@ const DataAlchemist: React.FC = () => {
   const applyModification = async () => {
     if (!pendingModification) return;
     
-    const { modification, modifiedData } = pendingModification;
+    const { modification } = pendingModification;
+    const modifiedData = withRowIds(pendingModification.modifiedData);
     
     // Apply the modification
-    setData(prev => ({
-      ...prev,
-      [activeTab]: modifiedData
-    }));
+    commitEntityData(activeTab, modifiedData);
     
     // Re-run validation
     await runValidation(activeTab, modifiedData);
@@ -360,13 +827,18 @@ const DataAlchemist: React.FC = () => {
     setPendingModification(null);
   };
 
+  // The fix goes to the row it was suggested for, wherever that row is now; if it was deleted there's nothing to fix
   const applyFix = (suggestion: FixSuggestion) => {
-    const error = errors[activeTab][suggestion.errorIndex];
-    if (error && error.row >= 0) {
-      handleCellEdit(activeTab, error.row, suggestion.fix.field, suggestion.fix.newValue);
+    if (findRowIndex(data[activeTab], suggestion.rowId) >= 0) {
+      handleCellEdit(activeTab, suggestion.rowId!, suggestion.fix.field, suggestion.fix.newValue);
     }
   };
 
+  const applyAutoFixes = async (fixes: AutoFix[]) => {
+    if (fixes.length === 0) return;
+    await replaceEntityData(activeTab, fixes.reduce(applyAutoFix, data[activeTab]));
+  };
+
   const clearSearch = () => {
     setSearchQuery('');
     setSearchResults({ clients: [], workers: [], tasks: [] });
@@ -389,8 +861,8 @@ const DataAlchemist: React.FC = () => {
   };
   
   const handleExport = () => {
-    // Check for rule validation errors before export
-    if (ruleErrors.length > 0) {
+    // Check for rule validation errors before export; warnings and acknowledged issues don't block it
+    if (activeRuleErrors.some(e => e.type === 'error')) {
       alert('Please fix rule validation errors before exporting.');
       return;
     }
@@ -399,22 +871,9 @@ const DataAlchemist: React.FC = () => {
     const exportData = (type: DataType) => {
       const csvData = data[type];
       if (csvData.length === 0) return;
-      
-      const headers = Object.keys(csvData[0]);
-      const csv = [
-        headers.join(','),
-        ...csvData.map(row => 
-          headers.map(header => {
-            const value = row[header];
-            // Escape values containing commas or quotes
-            if (typeof value === 'string' && (value.includes(',') || value.includes('"'))) {
-              return `"${value.replace(/"/g, '""')}"`;
-            }
-            return value ?? '';
-          }).join(',')
-        )
-      ].join('\n');
-      
+
+      const csv = toCleanedCsv(type, csvData);
+
       const blob = new Blob([csv], { type: 'text/csv' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
@@ -438,15 +897,20 @@ const DataAlchemist: React.FC = () => {
         return ruleData;
       }),
       prioritization: weights,
+      settings: {
+        maxPhase
+      },
       metadata: {
         exportedAt: new Date().toISOString(),
         version: '1.0.0',
         totalRules: rules.filter(r => r.enabled).length,
         validationStatus: {
-          dataErrors: Object.values(errors).flat().filter(e => e.type === 'error').length,
-          dataWarnings: Object.values(errors).flat().filter(e => e.type === 'warning').length,
-          ruleErrors: ruleErrors.length
-        }
+          dataErrors: Object.values(activeErrors).flat().filter(e => e.type === 'error').length,
+          dataWarnings: Object.values(activeErrors).flat().filter(e => e.type === 'warning').length,
+          ruleErrors: activeRuleErrors.length,
+          acknowledged: Object.values(reviewed).flatMap(r => r.acknowledged).length
+        },
+        validationPolicy
       }
     };
     
@@ -459,25 +923,39 @@ const DataAlchemist: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
-  const hasRowError = (type: DataType, rowIndex: number) => {
-    return errors[type].some(err => err.row === rowIndex && err.type === 'error');
+  // Audit copy of every finding, including acknowledged ones, tied to the data by its fingerprint
+  const exportValidationReport = async (format: ReportFormat) => {
+    const report = await buildValidationReport({ data, reviewed, policy: validationPolicy, maxPhase });
+    const { content, mimeType, extension } = formatReport(report, format);
+    
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `validation_report.${extension}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const hasRowError = (type: DataType, rowId: string) => {
+    return activeErrors[type].some(err => err.rowId === rowId && err.type === 'error');
   };
 
-  const hasRowWarning = (type: DataType, rowIndex: number) => {
-    return errors[type].some(err => err.row === rowIndex && err.type === 'warning');
+  const hasRowWarning = (type: DataType, rowId: string) => {
+    return activeErrors[type].some(err => err.rowId === rowId && err.type === 'warning');
   };
 
-  const isRowHighlighted = (type: DataType, rowIndex: number) => {
-    return searchResults[type].includes(rowIndex);
+  const isRowHighlighted = (type: DataType, rowId: string) => {
+    return searchResults[type].includes(rowId);
   };
 
-  const getRowClassName = (type: DataType, rowIndex: number) => {
+  const getRowClassName = (type: DataType, rowId: string) => {
     const classes = ['transition-all duration-200'];
-    if (hasRowError(type, rowIndex)) classes.push('bg-red-50 hover:bg-red-100');
-    else if (hasRowWarning(type, rowIndex)) classes.push('bg-amber-50 hover:bg-amber-100');
+    if (hasRowError(type, rowId)) classes.push('bg-red-50 hover:bg-red-100');
+    else if (hasRowWarning(type, rowId)) classes.push('bg-amber-50 hover:bg-amber-100');
     else classes.push('hover:bg-gray-50');
     
-    if (isRowHighlighted(type, rowIndex)) classes.push('ring-2 ring-blue-500 bg-blue-50');
+    if (isRowHighlighted(type, rowId)) classes.push('ring-2 ring-blue-500 bg-blue-50');
     
     return classes.join(' ');
   };
@@ -494,15 +972,9 @@ const DataAlchemist: React.FC = () => {
     tasks: 'Tasks'
   };
 
-  const columns: Record<DataType, string[]> = {
-    clients: ['ClientID', 'ClientName', 'PriorityLevel', 'RequestedTaskIDs', 'GroupTag', 'AttributesJSON'],
-    workers: ['WorkerID', 'WorkerName', 'Skills', 'AvailableSlots', 'MaxLoadPerPhase', 'WorkerGroup', 'QualificationLevel'],
-    tasks: ['TaskID', 'TaskName', 'Category', 'Duration', 'RequiredSkills', 'PreferredPhases', 'MaxConcurrent']
-  };
-
   // Get validation summary
   const getValidationSummary = (type: DataType) => {
-    const typeErrors = errors[type];
+    const typeErrors = activeErrors[type];
     const errorCount = typeErrors.filter(e => e.type === 'error').length;
     const warningCount = typeErrors.filter(e => e.type === 'warning').length;
     
@@ -514,9 +986,9 @@ const DataAlchemist: React.FC = () => {
   };
 
   const getTotalValidationSummary = () => {
-    const allErrors = Object.values(errors).flat().filter(e => e.type === 'error').length;
-    const allWarnings = Object.values(errors).flat().filter(e => e.type === 'warning').length;
-    const ruleErrorCount = ruleErrors.filter(e => e.type === 'error').length;
+    const allErrors = Object.values(activeErrors).flat().filter(e => e.type === 'error').length;
+    const allWarnings = Object.values(activeErrors).flat().filter(e => e.type === 'warning').length;
+    const ruleErrorCount = activeRuleErrors.filter(e => e.type === 'error').length;
     
     return {
       totalErrors: allErrors + ruleErrorCount,
@@ -544,6 +1016,24 @@ const DataAlchemist: React.FC = () => {
               </h1>
               <p className="text-gray-600 mt-1">AI-Powered Resource Allocation Configurator</p>
             </div>
+            <label className="ml-auto relative block" title="Open the CSVs and rules.json from a previous export, or a zip of them">
+              <input
+                type="file"
+                multiple
+                accept=".csv,.json,.zip"
+                onChange={handleProjectImport}
+                className="sr-only"
+                disabled={isImportingProject}
+              />
+              <div className="flex items-center gap-2 px-4 py-2 bg-white/70 border border-gray-200/50 text-gray-700 rounded-xl cursor-pointer hover:bg-white transition-all duration-200 shadow-sm">
+                {isImportingProject ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <FolderOpen className="w-4 h-4" />
+                )}
+                <span className="text-sm font-medium">Open Project</span>
+              </div>
+            </label>
           </div>
         </motion.div>
 
@@ -591,7 +1081,7 @@ const DataAlchemist: React.FC = () => {
                 {rules.filter(r => r.enabled).length}
               </span>
             )}
-            {ruleErrors.length > 0 && (
+            {activeRuleErrors.length > 0 && (
               <AlertCircle className="w-4 h-4 text-red-500" />
             )}
           </button>
@@ -694,13 +1184,34 @@ const DataAlchemist: React.FC = () => {
                         <div className="p-2 bg-gradient-to-br from-blue-500/10 to-purple-500/10 rounded-xl">
                           {tabIcons[type]}
                         </div>
-                        <h3 className="font-semibold text-gray-800">Upload {tabLabels[type]} CSV</h3>
+                        <h3 className="font-semibold text-gray-800">Upload {tabLabels[type]}</h3>
                       </div>
                       
+                      {data[type].length > 0 && (
+                        <div className="mb-3 flex gap-1 p-1 bg-gray-100/50 rounded-lg">
+                          {MERGE_MODES.map(mode => (
+                            <button
+                              key={mode.value}
+                              title={mode.description}
+                              onClick={() => setUploadModes(prev => ({ ...prev, [type]: mode.value }))}
+                              className={`
+                                flex-1 px-2 py-1 rounded-md text-xs font-medium transition-all duration-200
+                                ${uploadModes[type] === mode.value
+                                  ? 'bg-white text-gray-900 shadow-sm'
+                                  : 'text-gray-600 hover:text-gray-900'
+                                }
+                              `}
+                            >
+                              {mode.label}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      
                       <label className="relative block">
                         <input 
                           type="file" 
-                          accept=".csv,.xlsx"
+                          accept=".csv,.xlsx,.xls,.ods,.json,.ndjson,.jsonl"
                           onChange={(e) => handleFileUpload(e, type)}
                           className="sr-only"
                           disabled={uploadingType !== null}
@@ -717,6 +1228,37 @@ const DataAlchemist: React.FC = () => {
                         </div>
                       </label>
                       
+                      <button
+                        onClick={() => setPastingType(type)}
+                        disabled={uploadingType !== null}
+                        className="mt-2 w-full flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 border border-gray-200 rounded-xl hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        <ClipboardPaste className="w-4 h-4" />
+                        Paste data
+                      </button>
+                      
+                      {uploadingType === type && uploadProgress && (
+                        <div className="mt-3">
+                          <div className="flex justify-between items-center mb-1 text-xs text-gray-600">
+                            <span>{uploadProgress.rowsParsed.toLocaleString()} rows parsed</span>
+                            <button
+                              onClick={cancelUpload}
+                              className="text-red-600 hover:text-red-700 font-medium transition-colors"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                          <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                            <motion.div
+                              className="h-full bg-gradient-to-r from-blue-500 to-purple-600"
+                              initial={{ width: 0 }}
+                              animate={{ width: `${Math.round(uploadProgress.progress * 100)}%` }}
+                              transition={{ duration: 0.2 }}
+                            />
+                          </div>
+                        </div>
+                      )}
+                      
                       {data[type].length > 0 && (
                         <motion.div 
                           initial={{ opacity: 0, y: 10 }}
@@ -727,11 +1269,43 @@ const DataAlchemist: React.FC = () => {
                           <span className="text-green-700 font-medium">{data[type].length} records loaded</span>
                         </motion.div>
                       )}
+                      
+                      {appliedProfiles[type] && (
+                        <p className="mt-1 text-xs text-gray-500">Mapped with profile "{appliedProfiles[type]}"</p>
+                      )}
                     </div>
                   </motion.div>
                 ))}
               </motion.div>
 
+              {/* Project Phases */}
+              <div className="mb-6 rounded-2xl bg-white/70 backdrop-blur-sm border border-gray-200/50 shadow-sm p-4 flex items-center gap-3">
+                <div className="p-2 bg-gradient-to-br from-blue-500/10 to-purple-500/10 rounded-xl">
+                  <Calendar className="w-5 h-5 text-blue-600" />
+                </div>
+                <label htmlFor="max-phase" className="font-semibold text-gray-800">Last phase</label>
+                <input
+                  id="max-phase"
+                  type="number"
+                  min={1}
+                  value={maxPhase ?? ''}
+                  onChange={(e) => updateMaxPhase(e.target.value)}
+                  placeholder="No limit"
+                  className="w-28 px-3 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                />
+                <p className="text-sm text-gray-500">Phases above this in AvailableSlots, PreferredPhases or phase-window rules are reported as errors</p>
+              </div>
+
+              {/* Skill Taxonomy */}
+              <SkillTaxonomyPanel taxonomy={skillTaxonomy} onChange={updateSkillTaxonomy} />
+
+              {/* Column Mapping Profiles */}
+              <MappingProfilesPanel
+                profiles={mappingProfiles}
+                onDelete={(profileId) => updateMappingProfiles(mappingProfiles.filter(p => p.id !== profileId))}
+                onImport={(imported) => updateMappingProfiles(mergeProfiles(mappingProfiles, imported))}
+              />
+
               {/* Natural Language Search */}
               <motion.div 
                 initial={{ opacity: 0, y: 20 }}
@@ -974,6 +1548,20 @@ const DataAlchemist: React.FC = () => {
                           </span>
                         </div>
                       </div>
+                      <div className="ml-auto mr-3 flex items-center gap-1.5 text-xs text-gray-600">
+                        <FileText className="w-3.5 h-3.5" />
+                        Report:
+                        {(['json', 'csv', 'html'] as ReportFormat[]).map(format => (
+                          <button
+                            key={format}
+                            onClick={() => exportValidationReport(format)}
+                            className="px-2 py-1 font-medium uppercase text-gray-700 border border-gray-200 rounded-md hover:bg-gray-50 transition-colors"
+                            title={format === 'csv' ? 'Download the findings as CSV (the fingerprint and summary are in JSON and HTML)' : `Download the validation report as ${format.toUpperCase()}`}
+                          >
+                            {format}
+                          </button>
+                        ))}
+                      </div>
                       <button
                         onClick={() => runValidation(activeTab, data[activeTab])}
                         disabled={isValidating}
@@ -996,9 +1584,16 @@ const DataAlchemist: React.FC = () => {
                 )}
               </AnimatePresence>
 
+              <AcknowledgedIssuesPanel
+                policy={validationPolicy}
+                acknowledged={[...reviewed[activeTab].acknowledged, ...reviewed.rules.acknowledged]}
+                onRemoveSuppression={removeSuppression}
+                onRemoveOverride={removeSeverityOverride}
+              />
+
               {/* Errors and Fix Suggestions */}
               <AnimatePresence>
-                {errors[activeTab].length > 0 && (
+                {activeErrors[activeTab].length > 0 && (
                   <motion.div 
                     initial={{ opacity: 0, y: 20 }}
                     animate={{ opacity: 1, y: 0 }}
@@ -1010,9 +1605,19 @@ const DataAlchemist: React.FC = () => {
                       <div className="flex items-center gap-3 mb-4">
                         <AlertCircle className="w-5 h-5 text-red-600" />
                         <h3 className="font-semibold text-gray-800">Validation Issues</h3>
+                        {autoFixAll.fixes.length > 0 && (
+                          <button
+                            onClick={() => replaceEntityData(activeTab, autoFixAll.rows)}
+                            className="ml-auto px-3 py-1 text-xs font-medium text-blue-700 border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors flex items-center gap-1.5"
+                            title={autoFixAll.fixes.map(f => f.description).join('\n')}
+                          >
+                            <Wand2 className="w-3.5 h-3.5" />
+                            Fix all ({autoFixAll.fixes.length})
+                          </button>
+                        )}
                       </div>
                       <div className="space-y-2 max-h-64 overflow-y-auto pr-2">
-                        {errors[activeTab].slice(0, 10).map((err, idx) => (
+                        {activeErrors[activeTab].slice(0, 10).map((err, idx) => (
                           <motion.div 
                             key={idx}
                             initial={{ opacity: 0, x: -20 }}
@@ -1031,15 +1636,36 @@ const DataAlchemist: React.FC = () => {
                             ) : (
                               <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
                             )}
-                            <span>
-                              {err.row >= 0 && <span className="font-medium">Row {err.row + 1}: </span>}
+                            <span className="flex-1">
+                              {findRowIndex(data[activeTab], err.rowId) >= 0 && (
+                                <span className="font-medium">Row {findRowIndex(data[activeTab], err.rowId) + 1}: </span>
+                              )}
                               {err.message}
                             </span>
+                            {(() => {
+                              const fix = getAutoFix(activeTab, err, data[activeTab]);
+                              return fix && (
+                                <button
+                                  onClick={() => applyAutoFixes([fix])}
+                                  className="px-2 py-0.5 text-xs font-medium bg-white/80 border border-current/20 rounded-md hover:bg-white transition-colors flex-shrink-0"
+                                  title={fix.description}
+                                >
+                                  Fix
+                                </button>
+                              );
+                            })()}
+                            <button
+                              onClick={() => setAcknowledging({ type: activeTab, error: err })}
+                              className="p-0.5 opacity-60 hover:opacity-100 transition-opacity flex-shrink-0"
+                              title="Acknowledge"
+                            >
+                              <ShieldCheck className="w-4 h-4" />
+                            </button>
                           </motion.div>
                         ))}
-                        {errors[activeTab].length > 10 && (
+                        {activeErrors[activeTab].length > 10 && (
                           <p className="text-sm text-gray-500 italic text-center py-2">
-                            ...and {errors[activeTab].length - 10} more issues
+                            ...and {activeErrors[activeTab].length - 10} more issues
                           </p>
                         )}
                       </div>
@@ -1114,38 +1740,45 @@ const DataAlchemist: React.FC = () => {
                         <thead>
                           <tr className="border-b border-gray-200/50 bg-gray-50/30">
                             <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider w-16">#</th>
-                            {columns[activeTab].map(col => (
-                              <th key={col} className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
-                                {col}
+                            {ENTITY_SCHEMAS[activeTab].map(column => (
+                              <th
+                                key={column.name}
+                                title={describeColumn(column)}
+                                className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider"
+                              >
+                                {column.name}
                               </th>
                             ))}
                           </tr>
                         </thead>
                         <tbody className="divide-y divide-gray-200/30">
-                          {data[activeTab].map((row, rowIndex) => (
-                            <tr 
-                              key={rowIndex}
-                              className={getRowClassName(activeTab, rowIndex)}
-                            >
-                              <td className="px-4 py-3 text-center text-sm text-gray-500">
-                                <div className="flex items-center justify-center gap-2">
-                                  <span>{rowIndex + 1}</span>
-                                  {hasRowError(activeTab, rowIndex) && <AlertCircle className="w-3 h-3 text-red-500" />}
-                                  {!hasRowError(activeTab, rowIndex) && hasRowWarning(activeTab, rowIndex) && <AlertTriangle className="w-3 h-3 text-amber-500" />}
-                                </div>
-                              </td>
-                              {columns[activeTab].map(col => (
-                                <td key={col} className="px-6 py-3">
-                                  <input
-                                    type="text"
-                                    value={row[col] || ''}
-                                    onChange={(e) => handleCellEdit(activeTab, rowIndex, col, e.target.value)}
-                                    className="w-full px-3 py-1.5 text-sm border border-gray-200/50 rounded-lg bg-white/50 focus:bg-white focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all duration-200"
-                                  />
+                          {data[activeTab].map((row, rowIndex) => {
+                            const rowId = getRowId(row)!;
+                            return (
+                              <tr 
+                                key={rowId}
+                                className={getRowClassName(activeTab, rowId)}
+                              >
+                                <td className="px-4 py-3 text-center text-sm text-gray-500">
+                                  <div className="flex items-center justify-center gap-2">
+                                    <span>{rowIndex + 1}</span>
+                                    {hasRowError(activeTab, rowId) && <AlertCircle className="w-3 h-3 text-red-500" />}
+                                    {!hasRowError(activeTab, rowId) && hasRowWarning(activeTab, rowId) && <AlertTriangle className="w-3 h-3 text-amber-500" />}
+                                  </div>
                                 </td>
-                              ))}
-                            </tr>
-                          ))}
+                                {REQUIRED_COLUMNS[activeTab].map(col => (
+                                  <td key={col} className="px-6 py-3">
+                                    <input
+                                      type="text"
+                                      value={row[col] || ''}
+                                      onChange={(e) => handleCellEdit(activeTab, rowId, col, e.target.value)}
+                                      className="w-full px-3 py-1.5 text-sm border border-gray-200/50 rounded-lg bg-white/50 focus:bg-white focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all duration-200"
+                                    />
+                                  </td>
+                                ))}
+                              </tr>
+                            );
+                          })}
                         </tbody>
                       </table>
                     </div>
@@ -1160,7 +1793,7 @@ const DataAlchemist: React.FC = () => {
                       <Upload className="w-8 h-8 text-gray-400" />
                     </div>
                     <p className="text-gray-600 font-medium mb-2">No data loaded</p>
-                    <p className="text-gray-500 text-sm">Upload a CSV file to get started</p>
+                    <p className="text-gray-500 text-sm">Upload a CSV, Excel or JSON file to get started</p>
                   </motion.div>
                 )}
               </AnimatePresence>
@@ -1175,7 +1808,7 @@ const DataAlchemist: React.FC = () => {
               exit={{ opacity: 0, y: -20 }}
             >
               {/* Rule Validation Errors */}
-              {ruleErrors.length > 0 && (
+              {activeRuleErrors.length > 0 && (
                 <motion.div 
                   initial={{ opacity: 0, y: 20 }}
                   animate={{ opacity: 1, y: 0 }}
@@ -1186,9 +1819,19 @@ const DataAlchemist: React.FC = () => {
                     <h3 className="font-semibold text-red-800">Rule Validation Issues</h3>
                   </div>
                   <div className="space-y-2">
-                    {ruleErrors.map((err, idx) => (
-                      <div key={idx} className="p-3 bg-red-100/50 rounded-lg text-red-700 text-sm">
-                        {err.message}
+                    {activeRuleErrors.map((err, idx) => (
+                      <div key={idx} className="p-3 bg-red-100/50 rounded-lg text-red-700 text-sm flex items-start gap-2">
+                        <span className="flex-1">
+                          {err.message}
+                          {err.ruleId && <span className="ml-2 text-xs font-mono text-red-500">{err.ruleId}</span>}
+                        </span>
+                        <button
+                          onClick={() => setAcknowledging({ error: err })}
+                          className="p-0.5 opacity-60 hover:opacity-100 transition-opacity flex-shrink-0"
+                          title="Acknowledge"
+                        >
+                          <ShieldCheck className="w-4 h-4" />
+                        </button>
                       </div>
                     ))}
                   </div>
@@ -1196,9 +1839,13 @@ const DataAlchemist: React.FC = () => {
               )}
               
               <RulesBuilder 
-                data={data}
+                data={entities}
                 rules={rules}
                 onRulesChange={setRules}
+                ruleErrors={activeRuleErrors}
+                coRunClusters={coRunClusters}
+                maxPhase={maxPhase}
+                skillTaxonomy={skillTaxonomy}
               />
             </motion.div>
           )}
@@ -1219,6 +1866,63 @@ const DataAlchemist: React.FC = () => {
           )}
         </AnimatePresence>
       </div>
+
+      {/* CSV Format Preview */}
+      {pendingCsv && (
+        <CsvPreviewDialog
+          fileName={pendingCsv.file.name}
+          entityType={pendingCsv.type}
+          sample={pendingCsv.sample}
+          detectedFormat={pendingCsv.format}
+          onConfirm={confirmCsvImport}
+          onCancel={() => setPendingCsv(null)}
+        />
+      )}
+
+      {/* Acknowledge Issue */}
+      {acknowledging && (
+        <AcknowledgeDialog
+          error={acknowledging.error}
+          target={acknowledgeTarget(acknowledging)}
+          onConfirm={confirmAcknowledge}
+          onCancel={() => setAcknowledging(null)}
+        />
+      )}
+
+      {/* Paste Data */}
+      {pastingType && (
+        <PasteDataDialog
+          entityType={pastingType}
+          existingColumns={getEntityColumns(pastingType)}
+          onConfirm={confirmPaste}
+          onCancel={() => setPastingType(null)}
+        />
+      )}
+
+      {/* Merge Review */}
+      {pendingMerges.length > 0 && pendingImports.length === 0 && (
+        <MergeReviewDialog
+          key={`${pendingMerges[0].type}-${pendingMerges.length}`}
+          entityType={pendingMerges[0].type}
+          mode={pendingMerges[0].mode}
+          changes={pendingMerges[0].changes}
+          onConfirm={confirmPendingMerge}
+          onCancel={() => setPendingMerges(prev => prev.slice(1))}
+        />
+      )}
+
+      {/* Column Mapping Review */}
+      {pendingImports.length > 0 && (
+        <ColumnMappingDialog
+          key={`${pendingImports[0].type}-${pendingImports[0].sourceName}`}
+          entityType={pendingImports[0].type}
+          sourceName={pendingImports[0].sourceName}
+          matches={pendingImports[0].matches}
+          sampleRows={pendingImports[0].rows.slice(0, 20)}
+          onConfirm={confirmPendingImport}
+          onCancel={cancelPendingImport}
+        />
+      )}
     </div>
   );
 };
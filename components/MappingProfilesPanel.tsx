@@ -0,0 +1,105 @@
+'use client';
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import {
+  BookmarkCheck,
+  Download,
+  Upload,
+  Trash2
+} from 'lucide-react';
+import {
+  MappingProfile,
+  serializeProfiles,
+  parseProfiles
+} from '@/app/utils/mappingProfiles';
+
+interface MappingProfilesPanelProps {
+  profiles: MappingProfile[];
+  onDelete: (profileId: string) => void;
+  onImport: (profiles: MappingProfile[]) => void;
+}
+
+const MappingProfilesPanel: React.FC<MappingProfilesPanelProps> = ({ profiles, onDelete, onImport }) => {
+  const handleExport = () => {
+    const blob = new Blob([serializeProfiles(profiles)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'mapping_profiles.json';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const imported = parseProfiles(await file.text());
+      onImport(imported);
+    } catch (error) {
+      console.error('Failed to import mapping profiles:', error);
+      alert('Could not read mapping profiles from this file.');
+    } finally {
+      e.target.value = '';
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mb-6 rounded-2xl bg-white/70 backdrop-blur-sm border border-gray-200/50 shadow-sm p-6"
+    >
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 bg-gradient-to-br from-blue-500/10 to-purple-500/10 rounded-xl">
+          <BookmarkCheck className="w-5 h-5 text-blue-600" />
+        </div>
+        <h3 className="font-semibold text-gray-800">Column Mapping Profiles</h3>
+        <div className="ml-auto flex gap-2">
+          <label className="px-3 py-1.5 text-xs font-medium text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50 cursor-pointer transition-colors flex items-center gap-1.5">
+            <input type="file" accept=".json" onChange={handleImport} className="sr-only" />
+            <Upload className="w-3.5 h-3.5" />
+            Import
+          </label>
+          <button
+            onClick={handleExport}
+            disabled={profiles.length === 0}
+            className="px-3 py-1.5 text-xs font-medium text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-1.5"
+          >
+            <Download className="w-3.5 h-3.5" />
+            Export
+          </button>
+        </div>
+      </div>
+
+      {profiles.length > 0 ? (
+        <div className="space-y-2">
+          {profiles.map(profile => (
+            <div key={profile.id} className="p-3 rounded-lg border border-gray-200 bg-white flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-800">{profile.name}</p>
+                <p className="text-xs text-gray-500">
+                  {profile.entityType} • {profile.headers.length} columns • #{profile.signature}
+                </p>
+              </div>
+              <button
+                onClick={() => onDelete(profile.id)}
+                className="p-1.5 text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">
+          No saved profiles. Tick "Save as profile" when confirming a column mapping to reuse it on the next upload.
+        </p>
+      )}
+    </motion.div>
+  );
+};
+
+export default MappingProfilesPanel;
@@ -0,0 +1,141 @@
+'use client';
+
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  GitMerge,
+  Plus,
+  Minus,
+  PenLine,
+  ChevronRight,
+  Check,
+  XCircle
+} from 'lucide-react';
+import { MergeMode, RowChange, summarizeChanges } from '@/app/utils/mergeData';
+
+interface MergeReviewDialogProps {
+  entityType: 'clients' | 'workers' | 'tasks';
+  mode: MergeMode;
+  changes: RowChange[];
+  onConfirm: (acceptedKeys: Set<string>) => void;
+  onCancel: () => void;
+}
+
+const kindStyles = {
+  added: { icon: Plus, className: 'bg-green-50 border-green-200/50 text-green-700', label: 'Added' },
+  changed: { icon: PenLine, className: 'bg-blue-50 border-blue-200/50 text-blue-700', label: 'Changed' },
+  removed: { icon: Minus, className: 'bg-red-50 border-red-200/50 text-red-700', label: 'Removed' }
+};
+
+const formatValue = (value: any) => (value === null || value === undefined || value === '' ? '∅' : String(value));
+
+const MergeReviewDialog: React.FC<MergeReviewDialogProps> = ({ entityType, mode, changes, onConfirm, onCancel }) => {
+  const [accepted, setAccepted] = useState<Set<string>>(() => new Set(changes.map(c => c.key)));
+  const summary = summarizeChanges(changes);
+
+  const toggle = (key: string) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/40 backdrop-blur-sm p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="w-full max-w-3xl max-h-[85vh] flex flex-col rounded-2xl bg-white shadow-xl border border-gray-200/50"
+      >
+        <div className="p-6 border-b border-gray-200/50">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-br from-blue-500/10 to-purple-500/10 rounded-xl">
+              <GitMerge className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h3 className="font-semibold text-gray-800">Review Changes to {entityType}</h3>
+              <p className="text-sm text-gray-600 mt-0.5">
+                {mode} • {summary.added} added • {summary.changed} changed • {summary.removed} removed
+              </p>
+            </div>
+            <div className="ml-auto flex gap-2">
+              <button
+                onClick={() => setAccepted(new Set(changes.map(c => c.key)))}
+                className="px-3 py-1.5 text-xs font-medium text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Accept all
+              </button>
+              <button
+                onClick={() => setAccepted(new Set())}
+                className="px-3 py-1.5 text-xs font-medium text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Reject all
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-2">
+          {changes.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-8">The upload matches the current data. Nothing to change.</p>
+          )}
+          {changes.map(change => {
+            const style = kindStyles[change.kind];
+            const Icon = style.icon;
+            return (
+              <label
+                key={change.key}
+                className={`block p-3 rounded-lg border cursor-pointer transition-opacity ${style.className} ${accepted.has(change.key) ? '' : 'opacity-50'}`}
+              >
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={accepted.has(change.key)}
+                    onChange={() => toggle(change.key)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <Icon className="w-4 h-4" />
+                  <span className="text-sm font-medium">{style.label}</span>
+                  <span className="text-sm">{change.id || '(no ID)'}</span>
+                </div>
+                {change.fields.length > 0 && (
+                  <div className="mt-2 ml-6 space-y-1">
+                    {change.fields.map(fieldChange => (
+                      <p key={fieldChange.field} className="text-xs text-gray-600">
+                        <span className="font-medium">{fieldChange.field}:</span>{' '}
+                        <span className="text-red-600 line-through">{formatValue(fieldChange.oldValue)}</span>{' '}
+                        <ChevronRight className="w-3 h-3 inline" />{' '}
+                        <span className="text-green-600">{formatValue(fieldChange.newValue)}</span>
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </label>
+            );
+          })}
+        </div>
+
+        <div className="p-6 border-t border-gray-200/50 flex gap-3 justify-end">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors flex items-center gap-2"
+          >
+            <XCircle className="w-4 h-4" />
+            <span className="text-sm">Cancel Import</span>
+          </button>
+          <button
+            onClick={() => onConfirm(accepted)}
+            className="px-4 py-2 bg-gradient-to-r from-green-500 to-emerald-600 text-white rounded-lg hover:from-green-600 hover:to-emerald-700 transition-all duration-200 shadow-sm hover:shadow-md flex items-center gap-2"
+          >
+            <Check className="w-4 h-4" />
+            <span className="text-sm font-medium">Apply {accepted.size} Changes</span>
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default MergeReviewDialog;
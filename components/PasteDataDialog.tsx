@@ -0,0 +1,117 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import {
+  ClipboardPaste,
+  Check,
+  XCircle
+} from 'lucide-react';
+import { looksLikeHeaderRow } from '@/app/utils/pasteImport';
+
+interface PasteDataDialogProps {
+  entityType: 'clients' | 'workers' | 'tasks';
+  existingColumns: string[];
+  onConfirm: (text: string, hasHeaders: boolean) => void;
+  onCancel: () => void;
+}
+
+const PasteDataDialog: React.FC<PasteDataDialogProps> = ({ entityType, existingColumns, onConfirm, onCancel }) => {
+  const [text, setText] = useState('');
+  const [hasHeaders, setHasHeaders] = useState(true);
+  const [headersTouched, setHeadersTouched] = useState(false);
+
+  // Guess whether the first row is a header row until the user decides for themselves
+  useEffect(() => {
+    if (!headersTouched && text.trim()) {
+      setHasHeaders(looksLikeHeaderRow(text, entityType));
+    }
+  }, [text, entityType, headersTouched]);
+
+  const readClipboard = async () => {
+    try {
+      setText(await navigator.clipboard.readText());
+    } catch (error) {
+      console.error('Clipboard read failed:', error);
+      alert('Could not read the clipboard. Paste into the text box with Ctrl+V instead.');
+    }
+  };
+
+  const lineCount = text.split(/\r?\n/).filter(line => line.trim() !== '').length;
+  const rowCount = Math.max(0, hasHeaders ? lineCount - 1 : lineCount);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/40 backdrop-blur-sm p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="w-full max-w-3xl flex flex-col rounded-2xl bg-white shadow-xl border border-gray-200/50"
+      >
+        <div className="p-6 border-b border-gray-200/50">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-br from-blue-500/10 to-purple-500/10 rounded-xl">
+              <ClipboardPaste className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h3 className="font-semibold text-gray-800">Paste {entityType} data</h3>
+              <p className="text-sm text-gray-600 mt-0.5">Copy a range from a spreadsheet, or paste CSV/TSV text</p>
+            </div>
+            <button
+              onClick={readClipboard}
+              className="ml-auto px-3 py-1.5 text-xs font-medium text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Read clipboard
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={10}
+            placeholder={existingColumns.join('\t')}
+            className="w-full px-4 py-3 border border-gray-200/50 rounded-xl bg-white/50 focus:bg-white focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all duration-200 text-xs font-mono"
+          />
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={hasHeaders}
+              onChange={(e) => {
+                setHeadersTouched(true);
+                setHasHeaders(e.target.checked);
+              }}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="text-sm text-gray-700">First row contains column headers</span>
+          </label>
+          {!hasHeaders && (
+            <p className="text-xs text-gray-500">
+              Rows will be appended under the existing columns: {existingColumns.join(', ')}
+            </p>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-200/50 flex gap-3 justify-end">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors flex items-center gap-2"
+          >
+            <XCircle className="w-4 h-4" />
+            <span className="text-sm">Cancel</span>
+          </button>
+          <button
+            onClick={() => onConfirm(text, hasHeaders)}
+            disabled={rowCount === 0}
+            className="px-4 py-2 bg-gradient-to-r from-green-500 to-emerald-600 text-white rounded-lg hover:from-green-600 hover:to-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-sm hover:shadow-md flex items-center gap-2"
+          >
+            <Check className="w-4 h-4" />
+            <span className="text-sm font-medium">Import {rowCount} Rows</span>
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default PasteDataDialog;
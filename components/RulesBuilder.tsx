@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   GitBranch, 
@@ -16,7 +16,8 @@ import {
   Check,
   X,
   MessageSquare,
-  Loader2
+  Loader2,
+  AlertCircle
 } from 'lucide-react';
 import { 
   Rule, 
@@ -29,18 +30,26 @@ import {
   PrecedenceRule 
 } from '@/app/utils/rules';
 import { geminiService } from '@/app/services/gemini';
+import { EntityState } from '@/app/utils/entities';
+import { validator, ValidationError } from '@/app/utils/validations';
+import { buildSkillIndex, SkillDefinition } from '@/app/utils/skills';
+import { parsePhaseSet, formatPhaseSet, PhaseParseError } from '@/app/utils/phases';
+import { analyzeSlotRestriction, analyzeLoadLimit, describeCoRunProblems, CoRunCluster } from '@/app/utils/feasibility';
 
 interface RulesBuilderProps {
-  data: {
-    clients: any[];
-    workers: any[];
-    tasks: any[];
-  };
+  data: EntityState;
   rules: Rule[];
   onRulesChange: (rules: Rule[]) => void;
+  ruleErrors: ValidationError[];
+  coRunClusters: CoRunCluster[];
+  maxPhase: number | null;
+  skillTaxonomy: SkillDefinition[];
 }
 
-const RulesBuilder: React.FC<RulesBuilderProps> = ({ data, rules, onRulesChange }) => {
+// Phases offered as checkboxes when the project has no max phase set
+const DEFAULT_PHASE_COUNT = 10;
+
+const RulesBuilder: React.FC<RulesBuilderProps> = ({ data, rules, onRulesChange, ruleErrors, coRunClusters, maxPhase, skillTaxonomy }) => {
   const [activeRuleType, setActiveRuleType] = useState<string | null>(null);
   const [nlQuery, setNlQuery] = useState('');
   const [isProcessingNL, setIsProcessingNL] = useState(false);
@@ -53,11 +62,26 @@ const RulesBuilder: React.FC<RulesBuilderProps> = ({ data, rules, onRulesChange
   const [maxSlotsPerPhase, setMaxSlotsPerPhase] = useState(1);
   const [selectedTaskId, setSelectedTaskId] = useState('');
   const [allowedPhases, setAllowedPhases] = useState<number[]>([]);
+  const [phaseExpression, setPhaseExpression] = useState('');
+  const [phaseExpressionError, setPhaseExpressionError] = useState<string | null>(null);
   const [regexPattern, setRegexPattern] = useState('');
   const [patternTemplate, setPatternTemplate] = useState('');
   const [precedenceScope, setPrecedenceScope] = useState<'global' | 'specific'>('global');
   const [precedenceTarget, setPrecedenceTarget] = useState('');
   const [overridePriority, setOverridePriority] = useState(1);
+  const skillIndex = useMemo(() => buildSkillIndex(skillTaxonomy), [skillTaxonomy]);
+
+  // The text box and the checkboxes edit the same phase set
+  const updatePhaseExpression = (expression: string) => {
+    setPhaseExpression(expression);
+    try {
+      setAllowedPhases(parsePhaseSet(expression, { maxPhase }));
+      setPhaseExpressionError(null);
+    } catch (error) {
+      if (!(error instanceof PhaseParseError)) throw error;
+      setPhaseExpressionError(error.message);
+    }
+  };
 
   const handleNaturalLanguageRule = async () => {
     if (!nlQuery.trim() || isProcessingNL) return;
@@ -66,7 +90,14 @@ const RulesBuilder: React.FC<RulesBuilderProps> = ({ data, rules, onRulesChange
     try {
       const newRule = await geminiService.parseNaturalLanguageRule(nlQuery, data);
       if (newRule) {
-        onRulesChange([...rules, { ...newRule, id: generateRuleId(), createdAt: new Date() }]);
+        const rule = { ...newRule, id: generateRuleId(), createdAt: new Date() };
+        // The model sometimes invents task IDs or group names; reject those before they reach the rule list
+        const referenceErrors = validator.checkRuleReferences(rule);
+        if (referenceErrors.length > 0) {
+          alert(`The generated rule refers to data that doesn't exist:\n${referenceErrors.map(e => e.message).join('\n')}`);
+          return;
+        }
+        onRulesChange([...rules, rule]);
         setNlQuery('');
       }
     } catch (error) {
@@ -128,7 +159,7 @@ const RulesBuilder: React.FC<RulesBuilderProps> = ({ data, rules, onRulesChange
           newRule = {
             ...baseRule,
             type: 'phaseWindow',
-            name: `Phase window: ${selectedTaskId} in phases ${allowedPhases.join(', ')}`,
+            name: `Phase window: ${selectedTaskId} in phases ${formatPhaseSet(allowedPhases)}`,
             taskId: selectedTaskId,
             allowedPhases
           } as PhaseWindowRule;
@@ -174,6 +205,8 @@ const RulesBuilder: React.FC<RulesBuilderProps> = ({ data, rules, onRulesChange
     setMaxSlotsPerPhase(1);
     setSelectedTaskId('');
     setAllowedPhases([]);
+    setPhaseExpression('');
+    setPhaseExpressionError(null);
     setRegexPattern('');
     setPatternTemplate('');
     setPrecedenceScope('global');
@@ -417,18 +450,29 @@ const RulesBuilder: React.FC<RulesBuilderProps> = ({ data, rules, onRulesChange
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Allowed Phases
                   </label>
+                  <input
+                    type="text"
+                    value={phaseExpression}
+                    onChange={(e) => updatePhaseExpression(e.target.value)}
+                    placeholder="e.g. 1-3,5"
+                    className="w-full mb-2 px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                  />
+                  {phaseExpressionError && (
+                    <p className="mb-2 text-xs text-red-600">{phaseExpressionError}</p>
+                  )}
                   <div className="flex flex-wrap gap-2">
-                    {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map(phase => (
+                    {Array.from({ length: maxPhase || DEFAULT_PHASE_COUNT }, (_, i) => i + 1).map(phase => (
                       <label key={phase} className="flex items-center gap-1">
                         <input
                           type="checkbox"
                           checked={allowedPhases.includes(phase)}
                           onChange={(e) => {
-                            if (e.target.checked) {
-                              setAllowedPhases([...allowedPhases, phase].sort((a, b) => a - b));
-                            } else {
-                              setAllowedPhases(allowedPhases.filter(p => p !== phase));
-                            }
+                            const next = e.target.checked
+                              ? [...allowedPhases, phase]
+                              : allowedPhases.filter(p => p !== phase);
+                            setAllowedPhases(parsePhaseSet(next));
+                            setPhaseExpression(formatPhaseSet(next));
+                            setPhaseExpressionError(null);
                           }}
                           className="rounded border-gray-300 text-blue-600"
                         />
@@ -576,7 +620,26 @@ const RulesBuilder: React.FC<RulesBuilderProps> = ({ data, rules, onRulesChange
                     </button>
                     <div>
                       <p className="text-sm font-medium text-gray-800">{rule.name}</p>
-                      <p className="text-xs text-gray-500">Type: {rule.type} • Priority: {rule.priority}</p>
+                      <p className="text-xs text-gray-500">Type: {rule.type} • Priority: {rule.priority} • {rule.id}</p>
+                      {rule.type === 'slotRestriction' && (() => {
+                        const analysis = analyzeSlotRestriction(rule, data);
+                        if (!analysis) return null;
+                        return (
+                          <p className={`text-xs ${analysis.feasible ? 'text-gray-500' : 'text-red-600'}`}>
+                            {analysis.memberIds.length} members share {analysis.commonSlots.length} slot{analysis.commonSlots.length === 1 ? '' : 's'}
+                            {analysis.commonSlots.length > 0 && ` (${formatPhaseSet(analysis.commonSlots)})`} • needs {analysis.required}
+                          </p>
+                        );
+                      })()}
+                      {rule.type === 'loadLimit' && (() => {
+                        const analysis = analyzeLoadLimit(rule, rules, data, skillIndex);
+                        if (!analysis || analysis.phaseCapacity.length === 0) return null;
+                        return (
+                          <p className="text-xs text-gray-500">
+                            Group capacity per phase: {analysis.phaseCapacity.map(p => `P${p.phase} ${p.capacity}`).join(', ')}
+                          </p>
+                        );
+                      })()}
                     </div>
                   </div>
                   <button
@@ -586,11 +649,58 @@ const RulesBuilder: React.FC<RulesBuilderProps> = ({ data, rules, onRulesChange
                     <Trash2 className="w-4 h-4" />
                   </button>
                 </div>
+                {ruleErrors.filter(err => err.ruleId === rule.id).map((err, errIndex) => (
+                  <p key={errIndex} className="mt-2 ml-10 text-xs text-red-600 flex items-center gap-1">
+                    <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" />
+                    {err.message}
+                  </p>
+                ))}
               </motion.div>
             ))}
           </div>
         </motion.div>
       )}
+
+      {/* Co-run clusters: rules sharing a task have to run together */}
+      {coRunClusters.length > 0 && (
+        <motion.div 
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="rounded-2xl bg-white/70 backdrop-blur-sm border border-gray-200/50 shadow-sm p-6"
+        >
+          <h3 className="font-semibold text-gray-800 mb-1">Co-run Clusters ({coRunClusters.length})</h3>
+          <p className="text-sm text-gray-600 mb-4">Co-run rules that share a task are merged into one cluster that must run together</p>
+          <div className="space-y-2">
+            {coRunClusters.map(cluster => {
+              const problems = describeCoRunProblems(cluster);
+              return (
+                <div key={cluster.taskIds.join(',')} className="p-3 rounded-lg border bg-white border-gray-200">
+                  <div className="flex flex-wrap items-center gap-1.5">
+                    <Layers className="w-4 h-4 text-blue-600 mr-1" />
+                    {cluster.taskIds.map(taskId => (
+                      <span key={taskId} className="px-2 py-0.5 text-xs font-medium bg-blue-50 text-blue-700 rounded-md">{taskId}</span>
+                    ))}
+                  </div>
+                  <p className="mt-1.5 text-xs text-gray-500">
+                    {cluster.rules.length === 1 ? 'Rule' : 'Rules'}: {cluster.rules.map(r => r.name).join(', ')}
+                    {' • '}Common phases: {cluster.commonPhases === null ? 'any' : formatPhaseSet(cluster.commonPhases) || 'none'}
+                    {cluster.capacity !== null && ` • Needs ${cluster.demand} of ${cluster.capacity} worker slots`}
+                  </p>
+                  {problems.map((problem, problemIndex) => (
+                    <p
+                      key={problemIndex}
+                      className={`mt-1.5 text-xs flex items-center gap-1 ${problem.type === 'error' ? 'text-red-600' : 'text-yellow-700'}`}
+                    >
+                      <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" />
+                      {problem.message}
+                    </p>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </motion.div>
+      )}
     </div>
   );
 };
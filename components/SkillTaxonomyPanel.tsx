@@ -0,0 +1,132 @@
+'use client';
+
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  Network,
+  Plus,
+  RotateCcw,
+  Trash2,
+  ChevronDown,
+  ChevronUp
+} from 'lucide-react';
+import { SkillDefinition, DEFAULT_SKILL_TAXONOMY } from '@/app/utils/skills';
+
+interface SkillTaxonomyPanelProps {
+  taxonomy: SkillDefinition[];
+  onChange: (taxonomy: SkillDefinition[]) => void;
+}
+
+const splitList = (value: string) => value.split(',').map(s => s.trim()).filter(Boolean);
+
+// Inputs keep their own draft text and commit on blur, so typing a comma doesn't get swallowed
+const SkillRow: React.FC<{
+  skill: SkillDefinition;
+  onChange: (skill: SkillDefinition) => void;
+  onDelete: () => void;
+}> = ({ skill, onChange, onDelete }) => {
+  const [name, setName] = useState(skill.name);
+  const [aliases, setAliases] = useState(skill.aliases.join(', '));
+  const [parents, setParents] = useState(skill.parents.join(', '));
+
+  const commit = () => {
+    onChange({ name: name.trim(), aliases: splitList(aliases), parents: splitList(parents) });
+  };
+
+  const inputClassName = 'w-full px-2 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/20';
+
+  return (
+    <div className="grid grid-cols-[1fr_2fr_1.5fr_auto] gap-2 items-center">
+      <input value={name} onChange={(e) => setName(e.target.value)} onBlur={commit} placeholder="Skill" className={inputClassName} />
+      <input value={aliases} onChange={(e) => setAliases(e.target.value)} onBlur={commit} placeholder="Aliases, comma-separated" className={inputClassName} />
+      <input value={parents} onChange={(e) => setParents(e.target.value)} onBlur={commit} placeholder="Implies, e.g. JavaScript" className={inputClassName} />
+      <button
+        onClick={onDelete}
+        className="p-1.5 text-gray-400 hover:text-red-600 transition-colors"
+        title="Delete skill"
+      >
+        <Trash2 className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+const SkillTaxonomyPanel: React.FC<SkillTaxonomyPanelProps> = ({ taxonomy, onChange }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  // Bumped on reset so the rows drop their drafts and re-read the taxonomy
+  const [revision, setRevision] = useState(0);
+
+  const updateSkill = (index: number, skill: SkillDefinition) => {
+    onChange(taxonomy.map((s, i) => (i === index ? skill : s)));
+  };
+
+  const resetToDefaults = () => {
+    if (!confirm('Replace the skill taxonomy with the built-in defaults?')) return;
+    onChange(DEFAULT_SKILL_TAXONOMY);
+    setRevision(r => r + 1);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mb-6 rounded-2xl bg-white/70 backdrop-blur-sm border border-gray-200/50 shadow-sm p-6"
+    >
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-gradient-to-br from-blue-500/10 to-purple-500/10 rounded-xl">
+          <Network className="w-5 h-5 text-blue-600" />
+        </div>
+        <div>
+          <h3 className="font-semibold text-gray-800">Skill Taxonomy</h3>
+          <p className="text-sm text-gray-600 mt-0.5">
+            {taxonomy.length} skills • aliases and implied skills count as a match in skill checks
+          </p>
+        </div>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="ml-auto px-3 py-1.5 text-xs font-medium text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-1.5"
+        >
+          {isExpanded ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+          {isExpanded ? 'Hide' : 'Edit'}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="mt-4 space-y-2">
+          <div className="grid grid-cols-[1fr_2fr_1.5fr_auto] gap-2 text-xs font-medium text-gray-500 uppercase tracking-wider">
+            <span>Skill</span>
+            <span>Aliases</span>
+            <span>Implies</span>
+            <span className="w-7" />
+          </div>
+          {taxonomy.map((skill, index) => (
+            <SkillRow
+              key={`${revision}-${index}-${taxonomy.length}`}
+              skill={skill}
+              onChange={(updated) => updateSkill(index, updated)}
+              onDelete={() => onChange(taxonomy.filter((_, i) => i !== index))}
+            />
+          ))}
+          <div className="pt-2 flex gap-2">
+            <button
+              onClick={() => onChange([...taxonomy, { name: '', aliases: [], parents: [] }])}
+              className="px-3 py-1.5 text-xs font-medium text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-1.5"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              Add skill
+            </button>
+            <button
+              onClick={resetToDefaults}
+              className="px-3 py-1.5 text-xs font-medium text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-1.5"
+            >
+              <RotateCcw className="w-3.5 h-3.5" />
+              Reset to defaults
+            </button>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default SkillTaxonomyPanel;
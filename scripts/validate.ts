@@ -0,0 +1,174 @@
+// scripts/validate.ts
+//
+// Runs the same checks as the app without a browser, for pipelines:
+//
+//   npm run validate -- <dir> [--out <dir>] [--report <file>] [--max-phase <n>] [--skills <file>]
+//
+// <dir> holds clients/workers/tasks CSVs and optionally the exported rules.json, whose max phase
+// and acknowledgements are applied. --out writes the cleaned CSVs as the Export button does,
+// --report writes the validation report (.json, .csv or .html). Nothing here calls Gemini.
+//
+// Exit codes: 0 no open errors, 1 open errors (warnings alone don't fail), 2 bad arguments or input.
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DataRow, ValidationError, Validator } from '@/app/utils/validations';
+import { EntityType, ENTITY_TYPES, toCleanedCsv } from '@/app/utils/entities';
+import { BundleEntry, parseProjectBundle } from '@/app/utils/projectBundle';
+import { withRowIds, findRowIndex } from '@/app/utils/rowIdentity';
+import { SkillDefinition, DEFAULT_SKILL_TAXONOMY, parseSkillTaxonomy } from '@/app/utils/skills';
+import { ReviewedErrors, EMPTY_POLICY, applyValidationPolicy } from '@/app/utils/suppressions';
+import { ReportFormat, buildValidationReport, formatReport } from '@/app/utils/validationReport';
+
+interface CliOptions {
+  inputDir: string;
+  outDir: string | null;
+  reportFile: string | null;
+  reportFormat: ReportFormat;
+  maxPhase: number | null | undefined;
+  skillsFile: string | null;
+}
+
+const USAGE = 'Usage: validate <dir> [--out <dir>] [--report <file.json|csv|html>] [--max-phase <n>] [--skills <file>]';
+
+class UsageError extends Error {}
+
+function reportFormat(file: string): ReportFormat {
+  const extension = path.extname(file).slice(1).toLowerCase();
+  if (extension === 'json' || extension === 'csv' || extension === 'html') return extension;
+  throw new UsageError(`--report must end in .json, .csv or .html, got: ${file}`);
+}
+
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = { inputDir: '', outDir: null, reportFile: null, reportFormat: 'json', maxPhase: undefined, skillsFile: null };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => {
+      const next = args[++i];
+      if (next === undefined || next.startsWith('--')) throw new UsageError(`${arg} needs a value`);
+      return next;
+    };
+
+    switch (arg) {
+      case '--out':
+        options.outDir = value();
+        break;
+      case '--report':
+        options.reportFile = value();
+        options.reportFormat = reportFormat(options.reportFile);
+        break;
+      case '--max-phase': {
+        const text = value();
+        const maxPhase = parseInt(text);
+        if (!(maxPhase > 0)) throw new UsageError(`--max-phase must be a positive number, got: ${text}`);
+        options.maxPhase = maxPhase;
+        break;
+      }
+      case '--skills':
+        options.skillsFile = value();
+        break;
+      default:
+        if (arg.startsWith('--') || options.inputDir) throw new UsageError(`Unexpected argument: ${arg}`);
+        options.inputDir = arg;
+    }
+  }
+
+  if (!options.inputDir) throw new UsageError('No input directory given');
+  return options;
+}
+
+async function readInputDir(dir: string): Promise<BundleEntry[]> {
+  const names = (await fs.readdir(dir)).filter(name => /\.(csv|json)$/i.test(name)).sort();
+  return Promise.all(names.map(async name => ({ name, text: await fs.readFile(path.join(dir, name), 'utf-8') })));
+}
+
+// The skill taxonomy lives in browser storage, so a customised one has to be passed in as a file
+async function readSkillTaxonomy(file: string | null): Promise<SkillDefinition[]> {
+  if (!file) return DEFAULT_SKILL_TAXONOMY;
+  const taxonomy = parseSkillTaxonomy(JSON.parse(await fs.readFile(file, 'utf-8')));
+  if (!taxonomy) {
+    throw new UsageError(`${file} is not a skill taxonomy (expected an array of { name, aliases, parents })`);
+  }
+  return taxonomy;
+}
+
+function describeError(error: ValidationError, rows: DataRow[]): string {
+  const index = findRowIndex(rows, error.rowId);
+  const where = index >= 0 ? `row ${index + 1}${error.field ? ` ${error.field}` : ''}` : error.field || '';
+  return `  ${error.type === 'error' ? 'ERROR  ' : 'WARNING'} ${error.code}${where ? ` (${where})` : ''}: ${error.message}`;
+}
+
+async function main(args: string[]): Promise<number> {
+  const options = parseArgs(args);
+  const bundle = parseProjectBundle(await readInputDir(options.inputDir));
+  const loadedTypes = ENTITY_TYPES.filter(type => bundle.data[type]);
+  if (loadedTypes.length === 0) throw new UsageError(`No clients, workers or tasks CSVs found in ${options.inputDir}`);
+
+  const data = {} as Record<EntityType, DataRow[]>;
+  ENTITY_TYPES.forEach(type => {
+    data[type] = withRowIds(bundle.data[type] || []);
+  });
+  const rules = (bundle.rules || []).filter(rule => rule.enabled);
+  const maxPhase = options.maxPhase !== undefined ? options.maxPhase : bundle.maxPhase ?? null;
+  const policy = bundle.validationPolicy || EMPTY_POLICY;
+
+  // Same order as the app: every entity's data first, since the checks cross-reference each other
+  const validator = new Validator();
+  ENTITY_TYPES.forEach(type => validator.setData(type, data[type]));
+  validator.setRules(rules);
+  validator.setMaxPhase(maxPhase);
+  validator.setSkillTaxonomy(await readSkillTaxonomy(options.skillsFile));
+
+  const reviewed = {} as Record<EntityType | 'rules', ReviewedErrors>;
+  ENTITY_TYPES.forEach(type => {
+    const errors = data[type].length > 0 ? validator.validateData(type, data[type]) : [];
+    reviewed[type] = applyValidationPolicy(policy, errors, type, data[type]);
+  });
+  reviewed.rules = applyValidationPolicy(policy, validator.validateRules(rules));
+
+  const report = await buildValidationReport({ data, reviewed, policy, maxPhase });
+
+  console.log(`Validated ${options.inputDir}${maxPhase ? ` (last phase ${maxPhase})` : ''}`);
+  if (bundle.skippedFiles.length > 0) console.log(`Skipped files that are not part of an export: ${bundle.skippedFiles.join(', ')}`);
+  [...ENTITY_TYPES, 'rules' as const].forEach(scope => {
+    const { active, acknowledged } = reviewed[scope];
+    const label = scope === 'rules' ? `rules (${rules.length})` : `${scope} (${data[scope].length} rows)`;
+    console.log(`\n${label}: ${report.summary.byScope[scope].errors} errors, ${report.summary.byScope[scope].warnings} warnings, ${acknowledged.length} acknowledged`);
+    active.forEach(error => console.log(describeError(error, scope === 'rules' ? [] : data[scope])));
+  });
+  console.log(`\nTotal: ${report.summary.errors} errors, ${report.summary.warnings} warnings, ${report.summary.acknowledged} acknowledged`);
+  console.log(`Dataset fingerprint: ${report.fingerprint}`);
+
+  if (options.reportFile) {
+    const { content } = formatReport(report, options.reportFormat);
+    await fs.writeFile(options.reportFile, content);
+    console.log(`Wrote ${options.reportFile}`);
+  }
+
+  if (options.outDir) {
+    // Like the Export button, cleaned files are only written when the rules are sound
+    if (reviewed.rules.active.some(e => e.type === 'error')) {
+      console.log('Not writing cleaned CSVs: fix rule validation errors first.');
+    } else {
+      await fs.mkdir(options.outDir, { recursive: true });
+      for (const type of loadedTypes) {
+        if (data[type].length === 0) continue;
+        const file = path.join(options.outDir, `${type}_cleaned.csv`);
+        await fs.writeFile(file, toCleanedCsv(type, data[type]));
+        console.log(`Wrote ${file}`);
+      }
+    }
+  }
+
+  return report.summary.errors > 0 ? 1 : 0;
+}
+
+main(process.argv.slice(2))
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    if (error instanceof UsageError) console.error(USAGE);
+    process.exitCode = 2;
+  });